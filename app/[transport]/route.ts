@@ -2,161 +2,59 @@
  * MCP Server Route Handler
  *
  * This is the core of your ChatGPT MCP application.
- * Register your tools here and define their behavior.
+ * Registers the tools defined in lib/mcp/tools, the prompts defined in
+ * lib/mcp/prompts and the resources defined in lib/mcp/resources with the MCP server.
  *
  * Route structure:
  * - POST /mcp - Streamable HTTP transport (main MCP endpoint)
  * - GET /sse - Server-Sent Events transport
  * - POST /message - SSE message endpoint
  *
- * TEMPLATE: Add your own tools following the patterns below
+ * TEMPLATE: Define your own tools in lib/mcp/tools/ using defineTool()
+ * and prompts in lib/mcp/prompts/ using definePrompt() - lib/mcp/server.ts registers them
  */
 
-import { z } from "zod";
-import { withMcpAuth } from "better-auth/plugins";
-import { auth } from "@/lib/auth";
-import { baseURL } from "@/baseUrl";
-import { logger } from "@/lib/services/logger-service";
+import { withOptionalMcpAuth } from "@/lib/auth/mcp-auth";
 import { createMcpHandler } from "mcp-handler";
-import { createSuccessResponse } from "@/lib/utils/mcp-response-helpers";
+import { tools } from "@/lib/mcp/tools";
+import { AUTH_WIDGETS, assertWidgetPagesExist } from "@/lib/mcp/widgets";
+import { initializeMcpServer, MCP_SERVER_OPTIONS } from "@/lib/mcp/server";
+import { runWithMcpRequestContext } from "@/lib/mcp/request-context";
+import { resolveRequestId } from "@/lib/utils/request-id";
+
+// Fail at startup when a tool points at a widget page that doesn't exist
+// (deployed bundles don't ship app/ sources - `pnpm build` runs the same check)
+if (process.env.NODE_ENV !== "production") {
+  assertWidgetPagesExist([...tools, ...AUTH_WIDGETS]);
+}
 
 // ============================================================================
-// TOOL DEFINITIONS
-// Define your tools here with their schemas and handlers
+// MCP SERVER
+// Built once per instance - requests share it and pass their session through
+// the request context (lib/mcp/request-context.ts) instead of re-registering.
 // ============================================================================
 
-const tools = {
-  hello_world: {
-    title: "Say Hello",
-    description: "Say hello to the world. A simple example to start with.",
-    inputSchema: {
-      name: z.string().optional().describe("Your name"),
-    },
-    widgetPath: "/widgets/hello-world",
-    // Mark as read-only (doesn't modify data)
-    readOnly: true,
-    handler: async ({ name = "World" }: { name?: string }) => {
-      return createSuccessResponse(
-        `Hello, ${name}!`,
-        {
-          greeting: `Hello, ${name}!`,
-          name,
-          timestamp: new Date().toISOString(),
-        },
-        {
-          "openai/outputTemplate": "ui://widget/hello-world",
-          "openai/widgetAccessible": true,
-        }
-      );
-    },
-  },
-};
-
-// Export type for frontend type inference
-export type AppType = {
-  hello_world: {
-    input: { name?: string };
-    result: {
-      content: { type: "text"; text: string }[];
-      structuredContent: { greeting: string; name: string; timestamp: string };
-    };
-  };
-};
+const mcpHandler = createMcpHandler(initializeMcpServer, MCP_SERVER_OPTIONS, {
+  // Handler configuration
+  basePath: "/",
+  // mcp-handler's verbose logs print raw requests (bearer tokens, unredacted arguments);
+  // lib/mcp/tracing.ts logs each call through the structured logger instead
+  verboseLogs: false,
+  redisUrl: process.env.REDIS_URL,
+});
 
 // ============================================================================
 // MCP HANDLER WITH OAUTH
+// Requests without a token are accepted so `noauth` tools can run anonymously;
+// each tool's securitySchemes decide whether a sign-in challenge is returned.
 // ============================================================================
 
-const handler = withMcpAuth(auth, async (req: Request, session: any) => {
-  // Clone request to read body for logging (body can only be read once)
-  const clonedReq = req.clone();
-  let requestBody: any = null;
-  try {
-    requestBody = await clonedReq.json();
-    logger.info("[MCP] Incoming request:", {
-      method: requestBody.method,
-      id: requestBody.id,
-      params: requestBody.params,
-    });
-  } catch (e) {
-    logger.debug("[MCP] Could not parse request body for logging");
-  }
-
-  // Log session details for debugging
-  logger.debug("[MCP] Session received:", {
-    hasSession: !!session,
-    userId: session?.userId,
-    scopes: session?.scopes,
-  });
-
-  // Create MCP handler with tools registered directly
-  const mcpHandler = createMcpHandler(
-    (server) => {
-      // Register each tool from our definitions
-      for (const [name, tool] of Object.entries(tools)) {
-        const resourceUri = `ui://widget/${name}.html`;
-
-        logger.debug(`[MCP] Registering tool: ${name}`);
-
-        // Register the tool with full OpenAI metadata support
-        server.registerTool(
-          name,
-          {
-            title: tool.title,
-            description: tool.description,
-            inputSchema: tool.inputSchema,
-            // Mark read-only tools so ChatGPT knows they don't modify data
-            annotations: tool.readOnly ? { readOnlyHint: true } : undefined,
-            // Link tool to its widget template
-            _meta: {
-              "openai/outputTemplate": resourceUri,
-              "openai/toolInvocation/invoking": `Running ${tool.title}...`,
-              "openai/toolInvocation/invoked": `${tool.title} complete`,
-              // Allow widget to call tools via window.openai.callTool
-              "openai/widgetAccessible": true,
-            },
-          },
-          async (args: any) => {
-            logger.debug(`[MCP] Tool called: ${name}`, { args });
-            return tool.handler(args);
-          }
-        );
-
-        // NOTE: Resource registration is handled by createSuccessResponse via createUIResource
-        // The Apps SDK adapter automatically creates the resource with proper MIME type and scripts
-      }
-    },
-    {
-      // Server capabilities
-      capabilities: {
-        tools: {},
-        resources: {},
-      },
-    },
-    {
-      // Handler configuration
-      basePath: "/",
-      verboseLogs: true,
-      redisUrl: process.env.REDIS_URL,
-    }
-  );
-
-  const response = await mcpHandler(req);
-
-  // Log the response for debugging
-  const responseClone = response.clone();
-  try {
-    const responseBody = await responseClone.text();
-    logger.info("[MCP] Response:", {
-      status: response.status,
-      method: requestBody?.method,
-      body: responseBody.substring(0, 500),
-    });
-  } catch (e) {
-    logger.debug("[MCP] Could not log response body");
-  }
-
-  return response;
+const handler = withOptionalMcpAuth(async (req: Request, session) => {
+  // Each JSON-RPC request is traced by lib/mcp/tracing.ts (method, status, duration, redacted args)
+  const transport = new URL(req.url).pathname.endsWith("/sse") ? "sse" : "streamable-http";
+  // Set by middleware.ts; tool results echo it in `_meta` so widgets can forward it
+  const requestId = resolveRequestId(req.headers);
+  return runWithMcpRequestContext({ session, transport, requestId }, () => mcpHandler(req));
 });
 
 export const POST = handler;
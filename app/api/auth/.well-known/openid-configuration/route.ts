@@ -1,11 +1,12 @@
 import { NextRequest } from "next/server";
 import { oAuthDiscoveryMetadata } from "better-auth/plugins";
 import { auth } from "@/lib/auth";
+import { logger } from "@/lib/services/logger-service";
 
 const handler = oAuthDiscoveryMetadata(auth);
 
 export const GET = async (request: NextRequest) => {
-  console.log("[Auth] OpenID configuration requested", {
+  logger.info("[Auth] OpenID configuration requested", {
     path: request.nextUrl?.pathname,
     query: Object.fromEntries(request.nextUrl?.searchParams ?? []),
   });
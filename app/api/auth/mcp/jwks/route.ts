@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
+import { logger } from "@/lib/services/logger-service";
 
 /**
  * JWKS Endpoint for MCP OAuth Clients
@@ -10,7 +11,7 @@ import { auth } from "@/lib/auth";
  * serves it at /api/auth/jwks.
  */
 export const GET = async (request: NextRequest) => {
-  console.log("[MCP JWKS] Request received", {
+  logger.info("[MCP JWKS] Request received", {
     path: request.nextUrl?.pathname,
     userAgent: request.headers.get('user-agent'),
     origin: request.headers.get('origin'),
@@ -27,7 +28,7 @@ export const GET = async (request: NextRequest) => {
     const response = await auth.handler(jwksRequest);
 
     if (!response.ok) {
-      console.error("[MCP JWKS] Failed to get JWKS from auth handler", {
+      logger.error("[MCP JWKS] Failed to get JWKS from auth handler", {
         status: response.status,
         statusText: response.statusText,
       });
@@ -36,7 +37,7 @@ export const GET = async (request: NextRequest) => {
 
     const jwks = await response.json();
 
-    console.log("[MCP JWKS] Successfully retrieved JWKS", {
+    logger.info("[MCP JWKS] Successfully retrieved JWKS", {
       keyCount: jwks.keys?.length || 0,
     });
 
@@ -47,7 +48,7 @@ export const GET = async (request: NextRequest) => {
       },
     });
   } catch (error) {
-    console.error("[MCP JWKS] Error retrieving JWKS:", error);
+    logger.error("[MCP JWKS] Error retrieving JWKS", { error });
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
@@ -0,0 +1,99 @@
+"use client";
+
+import { useSearchParams } from "next/navigation";
+import { useState, Suspense } from "react";
+import { getScopeDescription } from "@/lib/auth/scopes";
+
+function ConsentContent() {
+  const searchParams = useSearchParams();
+  const consentCode = searchParams.get("consent_code");
+  const clientId = searchParams.get("client_id") || "An application";
+  const scopes = (searchParams.get("scope") || "").split(" ").filter(Boolean);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submitConsent = async (accept: boolean) => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      // Better Auth OIDC consent endpoint - returns the redirect back to the client
+      const response = await fetch("/api/auth/oauth2/consent", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ accept, consent_code: consentCode }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.redirectURI) {
+        throw new Error(data.error_description || data.message || "Consent request failed");
+      }
+
+      window.location.href = data.redirectURI;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Consent request failed");
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-4">
+      <div className="w-full max-w-md space-y-8 rounded-lg border p-6 shadow-lg bg-surface text-foreground">
+        <div className="text-center">
+          <h2 className="text-3xl font-bold tracking-tight">Authorize access</h2>
+          <p className="mt-2 text-sm text-gray-400">
+            <span className="font-semibold">{clientId}</span> would like to:
+          </p>
+        </div>
+
+        <ul className="space-y-2">
+          {scopes.map((scope) => (
+            <li key={scope} className="rounded-md border px-4 py-3 text-sm">
+              {getScopeDescription(scope)}
+            </li>
+          ))}
+        </ul>
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        <div className="flex gap-3">
+          <button
+            onClick={() => submitConsent(false)}
+            disabled={submitting || !consentCode}
+            className="flex-1 rounded-md border border-gray-200 px-4 py-3 font-medium transition-colors hover:bg-gray-100 hover:text-black disabled:opacity-50"
+          >
+            Deny
+          </button>
+          <button
+            onClick={() => submitConsent(true)}
+            disabled={submitting || !consentCode}
+            className="flex-1 rounded-md bg-white px-4 py-3 font-medium text-black transition-colors hover:bg-gray-100 border border-gray-200 disabled:opacity-50"
+          >
+            Allow
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ConsentFallback() {
+  return (
+    <div className="flex min-h-screen items-center justify-center p-4">
+      <div className="w-full max-w-md space-y-8 rounded-lg border p-6 shadow-lg bg-surface text-foreground">
+        <div className="text-center">
+          <h2 className="text-3xl font-bold tracking-tight">Authorize access</h2>
+          <p className="mt-2 text-sm text-gray-400">Loading...</p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function ConsentPage() {
+  return (
+    <Suspense fallback={<ConsentFallback />}>
+      <ConsentContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import { passkey, useSession } from "@/lib/auth/client";
+
+/**
+ * Passkey setup, linked from createSecurityRequiredResponse() (setupUrl)
+ * Signed-out users sign in first and come back here.
+ */
+export default function PasskeyPage() {
+  const router = useRouter();
+  const { data: session, isPending } = useSession();
+  const [status, setStatus] = useState<"idle" | "pending" | "added">("idle");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isPending && !session) {
+      router.push(`/login?callbackURL=${encodeURIComponent("/setup-security")}`);
+    }
+  }, [isPending, session, router]);
+
+  const addPasskey = async () => {
+    setStatus("pending");
+    setError(null);
+    const result = await passkey.addPasskey();
+    if (result?.error) {
+      setError(result.error.message || "Could not add a passkey. Please try again.");
+      setStatus("idle");
+      return;
+    }
+    setStatus("added");
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-4">
+      <div className="w-full max-w-md space-y-8 rounded-lg border p-6 shadow-lg bg-surface text-foreground">
+        <div className="text-center">
+          <h2 className="text-3xl font-bold tracking-tight">Set up a passkey</h2>
+          <p className="mt-2 text-sm text-gray-400">
+            {status === "added"
+              ? "Your passkey is ready. Go back to your assistant and ask again to continue."
+              : "Use your device's fingerprint, face or screen lock to secure your account"}
+          </p>
+        </div>
+
+        {status !== "added" && (
+          <div className="mt-8 space-y-4">
+            <button
+              disabled={!session || status === "pending"}
+              onClick={addPasskey}
+              className="flex w-full items-center justify-center gap-3 rounded-md bg-white px-4 py-3 text-black hover:bg-gray-100 transition-colors font-medium border border-gray-200 disabled:opacity-50"
+            >
+              {status === "pending" ? "Waiting for your device..." : "Add passkey"}
+            </button>
+            {error && <p className="text-sm text-red-500 text-center">{error}</p>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+import BillingLinkWidget from "@/src/components/billing-link";
+
+// Widget pages require ChatGPT SDK context at runtime - skip static generation
+export const dynamic = "force-dynamic";
+
+export default function BillingLinkPage() {
+  return (
+    <>
+      <BillingLinkWidget />
+    </>
+  );
+}
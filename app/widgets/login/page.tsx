@@ -0,0 +1,12 @@
+import Login from "@/src/components/login";
+
+// Widget pages require ChatGPT SDK context at runtime - skip static generation
+export const dynamic = "force-dynamic";
+
+export default function LoginPage() {
+  return (
+    <>
+      <Login />
+    </>
+  );
+}
@@ -0,0 +1,12 @@
+import SecurityRequired from "@/src/components/security-required";
+
+// Widget pages require ChatGPT SDK context at runtime - skip static generation
+export const dynamic = "force-dynamic";
+
+export default function SecurityRequiredPage() {
+  return (
+    <>
+      <SecurityRequired />
+    </>
+  );
+}
@@ -0,0 +1,12 @@
+import SubscriptionWidget from "@/src/components/subscription";
+
+// Widget pages require ChatGPT SDK context at runtime - skip static generation
+export const dynamic = "force-dynamic";
+
+export default function SubscriptionPage() {
+  return (
+    <>
+      <SubscriptionWidget />
+    </>
+  );
+}
@@ -0,0 +1,12 @@
+import UsageWidget from "@/src/components/usage";
+
+// Widget pages require ChatGPT SDK context at runtime - skip static generation
+export const dynamic = "force-dynamic";
+
+export default function UsagePage() {
+  return (
+    <>
+      <UsageWidget />
+    </>
+  );
+}
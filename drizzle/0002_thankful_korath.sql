@@ -0,0 +1,33 @@
+CREATE TABLE "app_settings" (
+	"id" text PRIMARY KEY NOT NULL,
+	"key" text NOT NULL,
+	"value" jsonb,
+	"description" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "app_settings_key_unique" UNIQUE("key")
+);
+--> statement-breakpoint
+CREATE TABLE "session" (
+	"id" text PRIMARY KEY NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"token" text NOT NULL,
+	"created_at" timestamp NOT NULL,
+	"updated_at" timestamp NOT NULL,
+	"ip_address" text,
+	"user_agent" text,
+	"user_id" text NOT NULL,
+	CONSTRAINT "session_token_unique" UNIQUE("token")
+);
+--> statement-breakpoint
+DROP TABLE "plaid_accounts" CASCADE;--> statement-breakpoint
+DROP TABLE "plaid_item_deletions" CASCADE;--> statement-breakpoint
+DROP TABLE "plaid_items" CASCADE;--> statement-breakpoint
+DROP TABLE "plaid_link_sessions" CASCADE;--> statement-breakpoint
+DROP TABLE "plaid_transactions" CASCADE;--> statement-breakpoint
+DROP TABLE "plaid_webhooks" CASCADE;--> statement-breakpoint
+ALTER TABLE "session" ADD CONSTRAINT "session_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "app_settings_key_idx" ON "app_settings" USING btree ("key");--> statement-breakpoint
+CREATE INDEX "session_userId_idx" ON "session" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "session_token_idx" ON "session" USING btree ("token");--> statement-breakpoint
+DROP TYPE "public"."plaid_item_status";
\ No newline at end of file
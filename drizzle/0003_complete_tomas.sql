@@ -0,0 +1,11 @@
+CREATE TABLE "usage_event" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"tool" text NOT NULL,
+	"units" integer DEFAULT 1 NOT NULL,
+	"request_id" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "usage_event" ADD CONSTRAINT "usage_event_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "usage_event_user_id_created_at_idx" ON "usage_event" USING btree ("user_id","created_at");
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE "usage_report" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"stripe_customer_id" text NOT NULL,
+	"identifier" text NOT NULL,
+	"window_start" timestamp NOT NULL,
+	"window_end" timestamp NOT NULL,
+	"units" integer NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"next_attempt_at" timestamp DEFAULT now() NOT NULL,
+	"last_error" text,
+	"reported_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "usage_report" ADD CONSTRAINT "usage_report_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "usage_report_identifier_idx" ON "usage_report" USING btree ("identifier");--> statement-breakpoint
+CREATE INDEX "usage_report_user_id_window_start_idx" ON "usage_report" USING btree ("user_id","window_start");--> statement-breakpoint
+CREATE INDEX "usage_report_status_next_attempt_at_idx" ON "usage_report" USING btree ("status","next_attempt_at");
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "subscription_add_on" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"add_on" text NOT NULL,
+	"stripe_subscription_id" text NOT NULL,
+	"stripe_subscription_item_id" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "subscription_add_on" ADD CONSTRAINT "subscription_add_on_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "subscription_add_on_user_id_idx" ON "subscription_add_on" USING btree ("user_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "subscription_add_on_item_idx" ON "subscription_add_on" USING btree ("stripe_subscription_item_id");
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE "stripe_event" (
+	"id" text PRIMARY KEY NOT NULL,
+	"type" text NOT NULL,
+	"payload" jsonb NOT NULL,
+	"livemode" boolean NOT NULL,
+	"stripe_created_at" timestamp NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"completed_hooks" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"deliveries" integer DEFAULT 1 NOT NULL,
+	"last_error" text,
+	"received_at" timestamp DEFAULT now() NOT NULL,
+	"processing_started_at" timestamp,
+	"processed_at" timestamp
+);
+--> statement-breakpoint
+CREATE INDEX "stripe_event_status_idx" ON "stripe_event" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "stripe_event_type_idx" ON "stripe_event" USING btree ("type");
\ No newline at end of file
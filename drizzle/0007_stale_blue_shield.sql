@@ -0,0 +1,17 @@
+CREATE TABLE "email_delivery" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text,
+	"template" text NOT NULL,
+	"to" text NOT NULL,
+	"dedupe_key" text,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"transport" text NOT NULL,
+	"message_id" text,
+	"last_error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"sent_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "email_delivery" ADD CONSTRAINT "email_delivery_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "email_delivery_dedupe_key_idx" ON "email_delivery" USING btree ("dedupe_key");--> statement-breakpoint
+CREATE INDEX "email_delivery_user_id_idx" ON "email_delivery" USING btree ("user_id");
\ No newline at end of file
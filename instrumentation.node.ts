@@ -0,0 +1,52 @@
+/**
+ * OpenTelemetry SDK Setup
+ *
+ * Exports spans over OTLP/HTTP when OTEL_EXPORTER_OTLP_ENDPOINT is set
+ * (e.g. http://localhost:4318 for a local collector). Without it no provider is
+ * registered and the spans created through lib/services/telemetry.ts are no-ops.
+ *
+ * Spans:
+ * - Next.js: one span per HTTP request
+ * - lib/mcp/tracing.ts: one span per JSON-RPC request, with the tool handler as a child
+ * - lib/auth: Better Auth session validation and requireAuth checks
+ * - pg / ioredis instrumentation: Drizzle queries and Redis commands
+ *
+ * Configuration (environment):
+ * - OTEL_EXPORTER_OTLP_ENDPOINT  Collector base URL; traces go to <endpoint>/v1/traces
+ * - OTEL_EXPORTER_OTLP_HEADERS   Extra exporter headers (e.g. "x-api-key=...")
+ * - OTEL_SERVICE_NAME            Service name (default: axite-mcp-template)
+ */
+
+import { NodeTracerProvider, BatchSpanProcessor } from "@opentelemetry/sdk-trace-node";
+import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-http";
+import { resourceFromAttributes } from "@opentelemetry/resources";
+import { ATTR_SERVICE_NAME } from "@opentelemetry/semantic-conventions";
+import { registerInstrumentations } from "@opentelemetry/instrumentation";
+import { PgInstrumentation } from "@opentelemetry/instrumentation-pg";
+import { IORedisInstrumentation } from "@opentelemetry/instrumentation-ioredis";
+import { logger } from "@/lib/services/logger-service";
+
+export function startTelemetry(): void {
+  const endpoint =
+    process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT || process.env.OTEL_EXPORTER_OTLP_ENDPOINT;
+  if (!endpoint) return;
+
+  const provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({
+      [ATTR_SERVICE_NAME]: process.env.OTEL_SERVICE_NAME || "axite-mcp-template",
+    }),
+    // The exporter reads the endpoint and headers from the OTEL_EXPORTER_OTLP_* variables
+    spanProcessors: [new BatchSpanProcessor(new OTLPTraceExporter())],
+  });
+  provider.register();
+
+  registerInstrumentations({
+    instrumentations: [
+      // Skip pool housekeeping and Redis reconnects that happen outside a request
+      new PgInstrumentation({ requireParentSpan: true }),
+      new IORedisInstrumentation({ requireParentSpan: true }),
+    ],
+  });
+
+  logger.info("[Telemetry] OpenTelemetry exporting traces", { endpoint });
+}
@@ -0,0 +1,13 @@
+/**
+ * Next.js Instrumentation
+ *
+ * Runs once when a server instance starts. OpenTelemetry is Node.js only, so the
+ * SDK is loaded from instrumentation.node.ts outside the edge runtime.
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startTelemetry } = await import("./instrumentation.node");
+    startTelemetry();
+  }
+}
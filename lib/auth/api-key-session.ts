@@ -0,0 +1,49 @@
+/**
+ * API Key Sessions
+ *
+ * MCP access tokens aren't Better Auth sessions, so endpoints behind the session
+ * middleware (e.g. the Stripe plugin's /subscription/* routes) reject them.
+ * withApiKeySession() mints a short-lived API key for the user and passes it as the
+ * `x-api-key` header, which the apiKey plugin (enableSessionForAPIKeys) turns into a session.
+ */
+
+import { auth, SESSION_API_KEY_EXPIRES_IN_SECONDS } from "./index";
+import { logger } from "@/lib/services/logger-service";
+
+/**
+ * Call session-protected auth.api endpoints on behalf of a user
+ *
+ * @example
+ * ```typescript
+ * const portal = await withApiKeySession(session.userId, (headers) =>
+ *   auth.api.createBillingPortal({ body: { returnUrl }, headers })
+ * );
+ * ```
+ */
+export async function withApiKeySession<T>(
+  userId: string,
+  fn: (headers: Headers) => Promise<T>
+): Promise<T> {
+  const apiKey = await auth.api.createApiKey({
+    body: {
+      userId,
+      name: "mcp-session",
+      // Deleted as soon as the call returns; the expiry bounds a key whose delete failed
+      expiresIn: SESSION_API_KEY_EXPIRES_IN_SECONDS,
+      rateLimitEnabled: false,
+    },
+  });
+  const headers = new Headers({ "x-api-key": apiKey.key });
+
+  try {
+    return await fn(headers);
+  } finally {
+    await auth.api.deleteApiKey({ body: { keyId: apiKey.id }, headers }).catch((error) => {
+      logger.warn("[Auth] Failed to delete session API key, it expires in a few minutes", {
+        userId,
+        keyId: apiKey.id,
+        error,
+      });
+    });
+  }
+}
@@ -5,6 +5,7 @@ export const {
   signIn,
   signOut,
   useSession,
+  passkey,
 } = createAuthClient({
   // Use current window origin - never hardcode localhost
   baseURL: typeof window !== "undefined" ? window.location.origin : "",
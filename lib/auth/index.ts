@@ -11,14 +11,21 @@ import { mcp, apiKey, jwt } from "better-auth/plugins";
 import { passkey } from "@better-auth/passkey";
 import { drizzleAdapter } from "better-auth/adapters/drizzle";
 import { stripe } from "@better-auth/stripe";
-import { db, pool, schema } from "@/lib/db";
+import { db, schema } from "@/lib/db";
 import { eq } from "drizzle-orm";
 import { Redis } from "ioredis";
-import Stripe from "stripe";
 import type { Subscription, StripePlan } from "@better-auth/stripe";
 import { baseURL as importedBaseURL } from "@/baseUrl";
 import { validateEnvironmentOrExit } from "@/lib/utils/env-validation";
 import { logger } from "@/lib/services/logger-service";
+import { stripeClient } from "@/lib/services/stripe-client";
+import { handleStripeEvent } from "@/lib/services/stripe-events";
+import { sendSubscriptionCanceledEmail, sendTrialExpiredEmail, sendWelcomeEmail } from "@/lib/services/subscription-emails";
+import { readRequestId } from "@/lib/utils/request-id";
+import { OAUTH_SCOPE_NAMES } from "./scopes";
+import { getCheckoutSessionParams, getStripePlans } from "./stripe-plans";
+import { notifySubscriptionUpdated } from "@/lib/mcp/resources/current-subscription";
+import { notifyUserProfileUpdated } from "@/lib/mcp/resources/user-profile";
 
 // Validate environment variables on startup
 validateEnvironmentOrExit();
@@ -41,18 +48,6 @@ redis.on('connect', () => {
   logger.info('[Redis] Connected successfully for rate limiting');
 });
 
-// Add error handling for the pool (re-exported from db)
-pool.on('error', (error) => {
-  logger.error('[Postgres] Unexpected error on idle client', { error: error.message });
-});
-
-// Create Stripe client for subscription management
-const stripeClient = process.env.STRIPE_SECRET_KEY
-  ? new Stripe(process.env.STRIPE_SECRET_KEY, {
-      apiVersion: "2025-10-29.clover",
-    })
-  : null;
-
 // Helper utilities for composing URLs without duplicate slashes
 const stripTrailingSlash = (value: string) =>
   value.endsWith("/") ? value.slice(0, -1) : value;
@@ -95,6 +90,9 @@ logger.debug("[Auth Config] Resolved URLs:", {
 // Resource URL advertised to OAuth clients (should remain the origin)
 const resourceURL = process.env.MCP_RESOURCE_URL || appOrigin;
 
+// Lifetime of the API keys withApiKeySession() mints for billing calls (lib/auth/api-key-session.ts)
+export const SESSION_API_KEY_EXPIRES_IN_SECONDS = 5 * 60;
+
 // Initialize Better Auth with MCP and Stripe plugins
 export const auth = betterAuth({
   // Database configuration - using Drizzle adapter
@@ -161,6 +159,28 @@ export const auth = betterAuth({
     },
   },
 
+  // Notify MCP resource subscribers (lib/mcp/resources) when user rows change
+  databaseHooks: {
+    user: {
+      update: {
+        after: async (user) => {
+          await notifyUserProfileUpdated(user.id);
+        },
+      },
+    },
+  },
+
+  // Log OAuth endpoint calls with their correlation id (set by middleware.ts)
+  hooks: {
+    before: createAuthMiddleware(async (ctx) => {
+      if (ctx.path.startsWith("/mcp/") || ctx.path.startsWith("/oauth2/")) {
+        logger.info(`[OAuth] ${ctx.path}`, {
+          requestId: ctx.headers ? readRequestId(ctx.headers) : undefined,
+        });
+      }
+    }),
+  },
+
   // Application name (used as issuer for TOTP)
   appName: "Axite MCP",
 
@@ -178,6 +198,10 @@ export const auth = betterAuth({
   },
   logger: {
     level: process.env.NODE_ENV === "production" ? "warn" : "debug",
+    // Route Better Auth's own logs through the structured logger
+    log: (level, message, ...args) => {
+      logger[level](`[Better Auth] ${message}`, args.length > 0 ? { args } : undefined);
+    },
   },
 
 
@@ -192,6 +216,10 @@ export const auth = betterAuth({
       // Enable sessions from API keys so the key can represent a user session
       // This is needed for endpoints like upgradeSubscription that require authentication
       enableSessionForAPIKeys: true,
+      // The plugin's minimum expiry (in days) defaults to a day; allow the minutes-long session keys
+      keyExpiration: {
+        minExpiresIn: SESSION_API_KEY_EXPIRES_IN_SECONDS / (60 * 60 * 24),
+      },
     }),
     jwt({
       // JWT plugin provides JWKS endpoint for token verification
@@ -219,14 +247,10 @@ export const auth = betterAuth({
         accessTokenExpiresIn: 3600,
         refreshTokenExpiresIn: 60 * 60 * 24 * 90,
         defaultScope: "openid profile email",
-        scopes: [
-          "openid",
-          "profile",
-          "email",
-          "claudeai",
-          "offline_access",
-          "subscription:manage",
-        ],
+        // Allowed scopes and their consent descriptions live in lib/auth/scopes.ts
+        scopes: OAUTH_SCOPE_NAMES,
+        // Shown when a client requests prompt=consent (trusted clients skip it)
+        consentPage: "/consent",
         trustedClients: [
           {
             clientId: "claude.ai",
@@ -268,17 +292,23 @@ export const auth = betterAuth({
 
         // Debug: Log metadata for subscription-related events
         if (event.type === "customer.subscription.created" || event.type === "customer.subscription.updated") {
-          const subscription = event.data.object as any;
+          const subscription = event.data.object;
+          // Billing periods live on the subscription items since API version 2025-03-31
+          const item = subscription.items.data[0];
           logger.debug("[Stripe Webhook] Subscription event details:", {
             subscriptionId: subscription.id,
             customerId: subscription.customer,
             metadata: subscription.metadata,
             status: subscription.status,
-            currentPeriodStart: new Date(subscription.current_period_start * 1000).toISOString(),
-            currentPeriodEnd: new Date(subscription.current_period_end * 1000).toISOString(),
+            currentPeriodStart: item && new Date(item.current_period_start * 1000).toISOString(),
+            currentPeriodEnd: item && new Date(item.current_period_end * 1000).toISOString(),
           });
         }
 
+        // Store the event and run the app's hooks once (lib/services/stripe-events.ts)
+        // A hook error fails the webhook, so Stripe redelivers the event
+        await handleStripeEvent(event);
+
         if (event.type === "checkout.session.completed") {
           const session = event.data.object as any;
           logger.debug("[Stripe Webhook] Checkout session completed:", {
@@ -293,7 +323,7 @@ export const auth = betterAuth({
           // Fetch the subscription object to inspect its metadata
           if (session.subscription) {
             try {
-              const subscription = await stripeClient.subscriptions.retrieve(session.subscription as string);
+              const subscription = await stripeClient!.subscriptions.retrieve(session.subscription as string);
               logger.debug("[Stripe Webhook] Retrieved subscription object:", {
                 id: subscription.id,
                 customer: subscription.customer,
@@ -314,49 +344,9 @@ export const auth = betterAuth({
       },
       subscription: {
         enabled: true,
-        plans: [
-          {
-            name: "basic",
-            priceId: process.env.STRIPE_BASIC_PRICE_ID || "",
-            limits: {
-              maxAccounts: 3,
-            },
-          },
-          {
-            name: "pro",
-            priceId: process.env.STRIPE_PRO_PRICE_ID || "",
-            limits: {
-              maxAccounts: 10,
-            },
-            freeTrial: {
-              days: 14,
-              onTrialStart: async (subscription: Subscription) => {
-                console.log("[Stripe] Trial started", {
-                  referenceId: subscription.referenceId,
-                });
-              },
-              onTrialEnd: async (
-                { subscription }: { subscription: Subscription }
-              ) => {
-                console.log("[Stripe] Trial ended", {
-                  referenceId: subscription.referenceId,
-                });
-              },
-              onTrialExpired: async (subscription: Subscription) => {
-                console.warn("[Stripe] Trial expired without conversion", {
-                  referenceId: subscription.referenceId,
-                });
-              },
-            },
-          },
-          {
-            name: "enterprise",
-            priceId: process.env.STRIPE_ENTERPRISE_PRICE_ID || "",
-            limits: {
-              maxAccounts: Infinity,
-            },
-          },
-        ],
+        // Generated from the plan catalog (lib/config/plans.ts)
+        plans: getStripePlans(),
+        getCheckoutSessionParams,
         requireEmailVerification: false,
         onSubscriptionComplete: async ({
           subscription,
@@ -365,7 +355,7 @@ export const auth = betterAuth({
           subscription: Subscription;
           plan: StripePlan;
         }) => {
-          console.log("[Stripe] onSubscriptionComplete HOOK CALLED", {
+          logger.info("[Stripe] onSubscriptionComplete HOOK CALLED", {
             subscriptionId: subscription.id,
             referenceId: subscription.referenceId,
             plan: plan.name,
@@ -384,7 +374,7 @@ export const auth = betterAuth({
               .from(schema.subscription)
               .where(eq(schema.subscription.referenceId, subscription.referenceId));
 
-            console.log("[Stripe] Database verification after onSubscriptionComplete:", {
+            logger.debug("[Stripe] Database verification after onSubscriptionComplete:", {
               found: dbCheckResult.length,
               subscriptions: dbCheckResult,
             });
@@ -395,54 +385,82 @@ export const auth = betterAuth({
                 .from(schema.subscription)
                 .where(eq(schema.subscription.stripeSubscriptionId, subscription.stripeSubscriptionId));
 
-              console.log("[Stripe] Database lookup by stripeSubscriptionId:", {
+              logger.debug("[Stripe] Database lookup by stripeSubscriptionId:", {
                 stripeSubscriptionId: subscription.stripeSubscriptionId,
                 found: stripeIdCheckResult.length,
                 subscriptions: stripeIdCheckResult,
               });
             }
           } catch (error) {
-            console.error("[Stripe] Failed to verify subscription in database:", error);
+            logger.error("[Stripe] Failed to verify subscription in database:", { error });
           }
 
-          // Email service removed for clean template
-          // To add email confirmations, implement an EmailService and call it here.
+          // Emails are best-effort here: the plugin has already saved the subscription
+          try {
+            await sendWelcomeEmail(subscription);
+          } catch (error) {
+            logger.error("[Stripe] Failed to send welcome email:", { error });
+          }
+
+          await notifySubscriptionUpdated(subscription.referenceId);
         },
         onSubscriptionUpdate: async ({
           subscription,
         }: {
           subscription: Subscription;
         }) => {
-          console.log("[Stripe] onSubscriptionUpdate HOOK CALLED", {
+          logger.info("[Stripe] onSubscriptionUpdate HOOK CALLED", {
             subscriptionId: subscription.id,
             referenceId: subscription.referenceId,
             plan: subscription.plan,
             status: subscription.status,
             stripeSubscriptionId: subscription.stripeSubscriptionId,
           });
+
+          await notifySubscriptionUpdated(subscription.referenceId);
         },
         onSubscriptionCancel: async ({
           subscription,
         }: {
           subscription: Subscription;
         }) => {
-          console.log("[Stripe] onSubscriptionCancel HOOK CALLED", {
+          logger.info("[Stripe] onSubscriptionCancel HOOK CALLED", {
             subscriptionId: subscription.id,
             referenceId: subscription.referenceId,
             status: subscription.status,
             cancelAtPeriodEnd: subscription.cancelAtPeriodEnd,
           });
+
+          try {
+            await sendSubscriptionCanceledEmail(subscription);
+          } catch (error) {
+            logger.error("[Stripe] Failed to send cancellation email:", { error });
+          }
+
+          await notifySubscriptionUpdated(subscription.referenceId);
         },
         onSubscriptionDeleted: async ({
           subscription,
         }: {
           subscription: Subscription;
         }) => {
-          console.warn("[Stripe] onSubscriptionDeleted HOOK CALLED", {
+          logger.warn("[Stripe] onSubscriptionDeleted HOOK CALLED", {
             subscriptionId: subscription.id,
             referenceId: subscription.referenceId,
             stripeSubscriptionId: subscription.stripeSubscriptionId,
           });
+
+          // Sent once per subscription, so a cancellation at period end isn't confirmed twice.
+          // Trials without a payment method are deleted when they end.
+          try {
+            await (subscription.status === "trialing"
+              ? sendTrialExpiredEmail(subscription)
+              : sendSubscriptionCanceledEmail(subscription));
+          } catch (error) {
+            logger.error("[Stripe] Failed to send cancellation email:", { error });
+          }
+
+          await notifySubscriptionUpdated(subscription.referenceId);
         },
       },
     })] : []),
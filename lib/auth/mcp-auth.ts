@@ -6,6 +6,10 @@
  */
 
 import { auth } from "./index";
+import { PROTECTED_RESOURCE_METADATA_URL } from "@/lib/utils/mcp-response-helpers";
+import { recordSpanError, withSpan } from "@/lib/services/telemetry";
+import { logger } from "@/lib/services/logger-service";
+import { readRequestId } from "@/lib/utils/request-id";
 
 /**
  * Session information extracted from Better Auth
@@ -13,6 +17,23 @@ import { auth } from "./index";
 export interface McpSession {
   userId: string;
   sessionId: string;
+  /** OAuth scopes granted to the access token */
+  scopes: string[];
+}
+
+/**
+ * Convert an MCP access token (from getMcpSession or withMcpAuth) to an McpSession
+ */
+export function toMcpSession(sessionData: {
+  userId: string;
+  accessToken: string;
+  scopes?: string | null;
+}): McpSession {
+  return {
+    userId: sessionData.userId,
+    sessionId: sessionData.accessToken,
+    scopes: sessionData.scopes ? sessionData.scopes.split(" ").filter(Boolean) : [],
+  };
 }
 
 /**
@@ -21,41 +42,36 @@ export interface McpSession {
 export async function getMcpSession(
   headers: Headers
 ): Promise<McpSession | null> {
-  try {
-    const authHeader = headers.get('authorization') || headers.get('Authorization');
-    console.error('[MCP Auth] Validating session', {
-      hasAuthHeader: !!authHeader,
-      authHeaderPreview: authHeader ? `${authHeader.substring(0, 20)}...` : 'none',
-    });
-
-    // Validate token with Better Auth
-    const sessionData = await auth.api.getMcpSession({
-      headers: headers,
-    });
-
-    console.error('[MCP Auth] Session data received', {
-      hasSessionData: !!sessionData,
-      hasUserId: !!sessionData?.userId,
-      userId: sessionData?.userId
-    });
-
-    if (!sessionData?.userId) {
-      console.error('[MCP Auth] Invalid or expired MCP session');
+  const log = logger.child({ requestId: readRequestId(headers) });
+
+  return withSpan('auth.getMcpSession', {}, async (span) => {
+    try {
+      const authHeader = headers.get('authorization') || headers.get('Authorization');
+      log.debug('[MCP Auth] Validating session', { hasAuthHeader: !!authHeader });
+
+      // Validate token with Better Auth
+      const sessionData = await auth.api.getMcpSession({
+        headers: headers,
+      });
+
+      span.setAttribute('auth.session_valid', !!sessionData?.userId);
+
+      if (!sessionData?.userId) {
+        log.warn('[MCP Auth] Invalid or expired MCP session');
+        return null;
+      }
+
+      log.debug('[MCP Auth] Session validated successfully', {
+        userId: sessionData.userId
+      });
+
+      return toMcpSession(sessionData);
+    } catch (error) {
+      log.error('[MCP Auth] Error validating session', { error });
+      recordSpanError(span, error);
       return null;
     }
-
-    console.error('[MCP Auth] Session validated successfully', {
-      userId: sessionData.userId
-    });
-
-    return {
-      userId: sessionData.userId,
-      sessionId: sessionData.accessToken,
-    };
-  } catch (error) {
-    console.error('[MCP Auth] Error validating session:', error);
-    return null;
-  }
+  });
 }
 
 /**
@@ -93,3 +109,44 @@ export async function getOptionalMcpAuth(
 ): Promise<McpSession | null> {
   return getMcpSession(headers);
 }
+
+/**
+ * Wrap an MCP route handler with optional authentication
+ *
+ * Unlike Better Auth's withMcpAuth, requests without a bearer token are passed
+ * through with a null session so tools can declare anonymous (noauth) access.
+ * A token that is present but invalid or expired is still rejected with a 401
+ * challenge so the client can refresh it.
+ */
+export function withOptionalMcpAuth(
+  handler: (req: Request, session: McpSession | null) => Response | Promise<Response>
+): (req: Request) => Promise<Response> {
+  return async (req: Request) => {
+    const hasBearerToken = req.headers.get('authorization')?.startsWith('Bearer ') ?? false;
+    const session = hasBearerToken ? await getMcpSession(req.headers) : null;
+
+    if (hasBearerToken && !session) {
+      const wwwAuthenticate = `Bearer resource_metadata="${PROTECTED_RESOURCE_METADATA_URL}", error="invalid_token"`;
+      return Response.json(
+        {
+          jsonrpc: '2.0',
+          error: {
+            code: -32000,
+            message: 'Unauthorized: Invalid or expired access token',
+            'www-authenticate': wwwAuthenticate,
+          },
+          id: null,
+        },
+        {
+          status: 401,
+          headers: {
+            'WWW-Authenticate': wwwAuthenticate,
+            'Access-Control-Expose-Headers': 'WWW-Authenticate',
+          },
+        }
+      );
+    }
+
+    return handler(req, session);
+  };
+}
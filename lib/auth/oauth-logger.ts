@@ -2,15 +2,19 @@
  * OAuth Logging Middleware
  *
  * Provides detailed logging for OAuth flows to help diagnose authentication issues.
+ * Entries carry the request id set by the middleware (middleware.ts).
  */
 
+import { logger } from "@/lib/services/logger-service";
+import { readRequestId } from "@/lib/utils/request-id";
+
 export const logOAuthRequest = (
   endpoint: string,
   request: Request,
   additionalInfo?: Record<string, unknown>
 ) => {
   const url = new URL(request.url);
-  console.log(`[OAuth] ${endpoint} request`, {
+  logger.child({ requestId: readRequestId(request.headers) }).info(`[OAuth] ${endpoint} request`, {
     method: request.method,
     path: url.pathname,
     searchParams: Object.fromEntries(url.searchParams),
@@ -26,10 +30,11 @@ export const logOAuthRequest = (
 
 export const logOAuthResponse = (
   endpoint: string,
+  request: Request,
   response: Response,
   body?: Record<string, unknown>
 ) => {
-  console.log(`[OAuth] ${endpoint} response`, {
+  logger.child({ requestId: readRequestId(request.headers) }).info(`[OAuth] ${endpoint} response`, {
     status: response.status,
     statusText: response.statusText,
     headers: {
@@ -48,15 +53,9 @@ export const logOAuthResponse = (
 
 export const logOAuthError = (
   endpoint: string,
+  request: Request,
   error: Error | unknown,
   context?: Record<string, unknown>
 ) => {
-  console.error(`[OAuth] ${endpoint} error`, {
-    error: error instanceof Error ? {
-      message: error.message,
-      name: error.name,
-      stack: error.stack,
-    } : error,
-    ...context,
-  });
+  logger.child({ requestId: readRequestId(request.headers) }).error(`[OAuth] ${endpoint} error`, { error, ...context });
 };
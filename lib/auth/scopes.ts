@@ -0,0 +1,49 @@
+/**
+ * OAuth Scopes
+ *
+ * Single catalog of the OAuth scopes this server grants.
+ * Feeds the MCP plugin's allowed scopes, the per-tool `auth.scopes` policy,
+ * and the descriptions shown to users on the consent screen (app/consent).
+ *
+ * Safe to import from client components (no server dependencies).
+ */
+
+/**
+ * Standard OpenID Connect scopes
+ */
+const STANDARD_SCOPES = {
+  openid: "Confirm your identity",
+  profile: "See your name and profile picture",
+  email: "See your email address",
+  offline_access: "Stay connected when you're not using the app",
+} as const;
+
+/**
+ * Application scopes
+ * TEMPLATE: Add your own scopes here with a human-readable description,
+ * then require them on tools with `auth: { scopes: ["your:scope"] }`
+ */
+const APP_SCOPES = {
+  claudeai: "Connect with Claude",
+  "subscription:manage": "View and manage your subscription",
+} as const;
+
+export const OAUTH_SCOPES = {
+  ...STANDARD_SCOPES,
+  ...APP_SCOPES,
+} as const;
+
+export type OAuthScope = keyof typeof OAUTH_SCOPES;
+
+/**
+ * All scope names, in the format expected by the MCP plugin's `scopes` option
+ */
+export const OAUTH_SCOPE_NAMES = Object.keys(OAUTH_SCOPES) as OAuthScope[];
+
+/**
+ * Get the human-readable description for a scope
+ * Falls back to the raw scope name for scopes not in the catalog
+ */
+export function getScopeDescription(scope: string): string {
+  return OAUTH_SCOPES[scope as OAuthScope] ?? scope;
+}
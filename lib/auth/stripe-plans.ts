@@ -0,0 +1,70 @@
+/**
+ * Stripe Plugin Plans
+ *
+ * Builds the Better Auth Stripe plugin's `subscription.plans` from the plan catalog
+ * (lib/config/plans.ts). Plans whose price id env var isn't set are left out.
+ */
+
+import type { StripePlan, Subscription } from "@better-auth/stripe";
+import { PLAN_NAMES, PLANS, getPlan, getPlanPriceId } from "@/lib/config/plans";
+import type { PlanDefinition } from "@/lib/config/plans";
+import { logger } from "@/lib/services/logger-service";
+import { sendTrialExpiredEmail } from "@/lib/services/subscription-emails";
+
+function createFreeTrial(days: number): StripePlan["freeTrial"] {
+  return {
+    days,
+    onTrialStart: async (subscription: Subscription) => {
+      // The welcome email (onSubscriptionComplete) tells the user when the trial ends
+      logger.info("[Stripe] Trial started", {
+        referenceId: subscription.referenceId,
+      });
+    },
+    onTrialEnd: async ({ subscription }: { subscription: Subscription }) => {
+      logger.info("[Stripe] Trial ended", {
+        referenceId: subscription.referenceId,
+      });
+    },
+    onTrialExpired: async (subscription: Subscription) => {
+      logger.warn("[Stripe] Trial expired without conversion", {
+        referenceId: subscription.referenceId,
+      });
+
+      try {
+        await sendTrialExpiredEmail(subscription);
+      } catch (error) {
+        logger.error("[Stripe] Failed to send trial expired email", { referenceId: subscription.referenceId, error });
+      }
+    },
+  };
+}
+
+/**
+ * Stripe plugin plans for every plan with a configured price
+ */
+export function getStripePlans(): StripePlan[] {
+  return PLAN_NAMES.flatMap((name) => {
+    const priceId = getPlanPriceId(name);
+    if (!priceId) return [];
+
+    const plan: PlanDefinition = PLANS[name];
+    return [
+      {
+        name,
+        priceId,
+        limits: { ...plan.limits },
+        ...(plan.trialDays ? { freeTrial: createFreeTrial(plan.trialDays) } : {}),
+      },
+    ];
+  });
+}
+
+/**
+ * Checkout overrides per plan
+ * Metered prices are billed on reported usage and reject a quantity.
+ */
+export function getCheckoutSessionParams({ plan }: { plan: StripePlan }) {
+  return getPlan(plan.name)?.metered
+    ? { params: { line_items: [{ price: plan.priceId }] } }
+    : {};
+}
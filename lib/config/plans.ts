@@ -0,0 +1,185 @@
+/**
+ * Plan Catalog
+ *
+ * Single definition of every subscription plan and add-on: Stripe price, trial, limits
+ * and entitlements. The Better Auth Stripe plugin's plans (lib/auth/stripe-plans.ts), PLAN_LIMITS
+ * (lib/utils/plan-limits.ts) and the subscription helpers are all derived from it,
+ * so adding or changing a plan is one edit here.
+ *
+ * Safe to import from client components (no server dependencies).
+ */
+
+/**
+ * Limits enforced for each plan
+ * TEMPLATE: Add your own limits here, then give every plan (and FREE_LIMITS) a value
+ */
+export interface PlanLimitValues {
+  maxAccounts: number;
+  /** MCP tool calls allowed per user, per tool, per minute (lib/mcp/rate-limit.ts) */
+  toolCallsPerMinute: number;
+  /** Tool cost units included per calendar month (lib/services/usage-service.ts) */
+  monthlyUsageUnits: number;
+}
+
+/**
+ * Named features a plan can unlock, with the label shown to users
+ * TEMPLATE: Add your own features here and list them on the plans that include them
+ */
+export const ENTITLEMENTS = {
+  premium_tools: "Premium tools",
+  exports: "Data exports",
+  priority_support: "Priority support",
+} as const;
+
+export type Entitlement = keyof typeof ENTITLEMENTS;
+
+export interface PlanDefinition {
+  displayName: string;
+
+  /** Environment variable holding the plan's Stripe price id (plans without one aren't offered) */
+  priceIdEnv: string;
+
+  /** Free trial length for first-time subscribers */
+  trialDays?: number;
+
+  /** Entitlements while trialing, when the trial shouldn't unlock everything (default: `entitlements`) */
+  trialEntitlements?: readonly Entitlement[];
+
+  /** Billed on reported usage instead of a flat price (lib/services/metered-billing.ts) */
+  metered?: boolean;
+
+  limits: PlanLimitValues;
+  entitlements: readonly Entitlement[];
+}
+
+/**
+ * Subscription plans, from cheapest to most expensive
+ * TEMPLATE: Replace these with your own plans
+ */
+export const PLANS = {
+  basic: {
+    displayName: "Basic",
+    priceIdEnv: "STRIPE_BASIC_PRICE_ID",
+    limits: {
+      maxAccounts: 3,
+      toolCallsPerMinute: 30,
+      monthlyUsageUnits: 1_000,
+    },
+    entitlements: [],
+  },
+  pro: {
+    displayName: "Pro",
+    priceIdEnv: "STRIPE_PRO_PRICE_ID",
+    trialDays: 14,
+    trialEntitlements: ["premium_tools"],
+    limits: {
+      maxAccounts: 10,
+      toolCallsPerMinute: 120,
+      monthlyUsageUnits: 10_000,
+    },
+    entitlements: ["premium_tools", "exports"],
+  },
+  enterprise: {
+    displayName: "Enterprise",
+    priceIdEnv: "STRIPE_ENTERPRISE_PRICE_ID",
+    limits: {
+      maxAccounts: Infinity,
+      toolCallsPerMinute: 600,
+      monthlyUsageUnits: Infinity,
+    },
+    entitlements: ["premium_tools", "exports", "priority_support"],
+  },
+  metered: {
+    displayName: "Pay as you go",
+    priceIdEnv: "STRIPE_METERED_PRICE_ID",
+    metered: true,
+    // Usage is billed through Stripe instead of capped
+    limits: {
+      maxAccounts: 10,
+      toolCallsPerMinute: 120,
+      monthlyUsageUnits: Infinity,
+    },
+    entitlements: ["premium_tools"],
+  },
+} as const satisfies Record<string, PlanDefinition>;
+
+export type PlanName = keyof typeof PLANS;
+
+export const PLAN_NAMES = Object.keys(PLANS) as PlanName[];
+
+/**
+ * Add-on bought alongside a plan, as an extra price on the same Stripe subscription
+ */
+export interface AddOnDefinition {
+  displayName: string;
+
+  /** Environment variable holding the add-on's Stripe price id */
+  priceIdEnv: string;
+
+  entitlements: readonly Entitlement[];
+}
+
+/**
+ * Add-ons
+ * TEMPLATE: Replace these with your own add-ons
+ */
+export const ADD_ONS = {
+  exports: {
+    displayName: "Exports add-on",
+    priceIdEnv: "STRIPE_EXPORTS_ADDON_PRICE_ID",
+    entitlements: ["exports"],
+  },
+} as const satisfies Record<string, AddOnDefinition>;
+
+export type AddOnName = keyof typeof ADD_ONS;
+
+export const ADD_ON_NAMES = Object.keys(ADD_ONS) as AddOnName[];
+
+/**
+ * Limits for users without a paid plan (free tier, or every user when subscriptions are disabled)
+ */
+export const FREE_LIMITS: PlanLimitValues = {
+  maxAccounts: 0,
+  toolCallsPerMinute: 20,
+  monthlyUsageUnits: 100,
+};
+
+/**
+ * Days a subscriber keeps their plan after a renewal payment fails, by Stripe status
+ * Counted from the start of the billing period whose payment failed; 0 ends access as soon
+ * as the subscription enters the status.
+ * - past_due: Stripe is still retrying the payment
+ * - unpaid: retries are exhausted and the subscription was left open (Stripe billing settings)
+ * TEMPLATE: Match these to your Stripe retry schedule
+ */
+export const GRACE_PERIOD_DAYS = {
+  past_due: 7,
+  unpaid: 0,
+} as const satisfies Record<string, number>;
+
+export type GracePeriodStatus = keyof typeof GRACE_PERIOD_DAYS;
+
+export function isPlanName(name: string | null | undefined): name is PlanName {
+  return !!name && Object.hasOwn(PLANS, name);
+}
+
+/**
+ * Catalog entry for a plan, or null for unknown names and users without a plan
+ */
+export function getPlan(name: string | null | undefined): PlanDefinition | null {
+  return isPlanName(name) ? PLANS[name] : null;
+}
+
+/**
+ * Stripe price id of a plan, if configured
+ */
+export function getPlanPriceId(name: PlanName): string | undefined {
+  return process.env[PLANS[name].priceIdEnv] || undefined;
+}
+
+/**
+ * Add-on sold at a Stripe price id, if any
+ */
+export function getAddOnByPriceId(priceId: string): AddOnName | null {
+  return ADD_ON_NAMES.find((name) => process.env[ADD_ONS[name].priceIdEnv] === priceId) ?? null;
+}
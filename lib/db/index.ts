@@ -7,6 +7,7 @@
 import { drizzle } from "drizzle-orm/node-postgres";
 import { Pool } from "pg";
 import * as schema from "./schema";
+import { logger } from "@/lib/services/logger-service";
 
 // Create PostgreSQL connection pool
 export const pool = new Pool({
@@ -19,7 +20,7 @@ export const pool = new Pool({
 
 // Add error handling for the pool
 pool.on('error', (error) => {
-  console.error('[Postgres] Unexpected error on idle client', error);
+  logger.error('[Postgres] Unexpected error on idle client', { error: error.message });
 });
 
 // Create Drizzle database instance with schema
@@ -5,6 +5,7 @@
  */
 
 import Redis from "ioredis";
+import { logger } from "@/lib/services/logger-service";
 
 const redisUrl = process.env.REDIS_URL || "redis://localhost:6379";
 
@@ -16,10 +17,10 @@ export const redis = new Redis(redisUrl, {
   },
 });
 
-redis.on("error", (err) => {
-  console.error("Redis connection error:", err);
+redis.on("error", (error) => {
+  logger.error("[Redis] Connection error", { error: error.message });
 });
 
 redis.on("connect", () => {
-  console.log("✅ Redis connected successfully");
+  logger.info("[Redis] Connected successfully");
 });
@@ -7,6 +7,7 @@ import {
   integer,
   jsonb,
   index,
+  uniqueIndex,
   pgEnum
 } from "drizzle-orm/pg-core";
 import { createId } from "@paralleldrive/cuid2";
@@ -230,6 +231,33 @@ export const subscription = pgTable("subscription", {
   seats: integer("seats"),
 });
 
+/**
+ * Add-ons on a user's Stripe subscription (see ADD_ONS in lib/config/plans.ts)
+ * Synced from subscription webhooks by lib/utils/entitlements.ts; a row exists while the add-on is active.
+ */
+export const subscriptionAddOn = pgTable(
+  "subscription_add_on",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => createId()),
+
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+
+    addOn: text("add_on").notNull(),
+    stripeSubscriptionId: text("stripe_subscription_id").notNull(),
+    stripeSubscriptionItemId: text("stripe_subscription_item_id").notNull(),
+
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    userIdIndex: index("subscription_add_on_user_id_idx").on(table.userId),
+    itemIndex: uniqueIndex("subscription_add_on_item_idx").on(table.stripeSubscriptionItemId),
+  })
+);
+
 // ============================================================================
 // BETTER AUTH RELATIONS
 // ============================================================================
@@ -380,3 +408,170 @@ export const auditLogsRelations = relations(auditLogs, ({ one }) => ({
     references: [user.id],
   }),
 }));
+
+/**
+ * Usage events for metering MCP tool calls against monthly plan quotas
+ * One row per successful tool call; `units` is the tool's cost (lib/services/usage-service.ts)
+ */
+export const usageEvent = pgTable(
+  "usage_event",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => createId()),
+
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+
+    tool: text("tool").notNull(),
+    units: integer("units").notNull().default(1),
+
+    // Correlation id of the MCP request (middleware.ts)
+    requestId: text("request_id"),
+
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    userCreatedAtIndex: index("usage_event_user_id_created_at_idx").on(
+      table.userId,
+      table.createdAt
+    ),
+  })
+);
+
+export const usageEventRelations = relations(usageEvent, ({ one }) => ({
+  user: one(user, {
+    fields: [usageEvent.userId],
+    references: [user.id],
+  }),
+}));
+
+/**
+ * Usage reported to Stripe for metered subscriptions (lib/services/metered-billing.ts)
+ * One row per user per hourly window, plus a row for each reconciliation correction.
+ * `identifier` is sent as the meter event identifier and idempotency key, so a report
+ * is never counted twice by Stripe however often it is retried.
+ */
+export const usageReport = pgTable(
+  "usage_report",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => createId()),
+
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+
+    stripeCustomerId: text("stripe_customer_id").notNull(),
+    identifier: text("identifier").notNull(),
+
+    windowStart: timestamp("window_start").notNull(),
+    windowEnd: timestamp("window_end").notNull(),
+    units: integer("units").notNull(),
+
+    // pending -> reported, or failed once retries are exhausted
+    status: text("status").notNull().default("pending"),
+    attempts: integer("attempts").notNull().default(0),
+    nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+    lastError: text("last_error"),
+    reportedAt: timestamp("reported_at"),
+
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    identifierIndex: uniqueIndex("usage_report_identifier_idx").on(table.identifier),
+    userWindowIndex: index("usage_report_user_id_window_start_idx").on(
+      table.userId,
+      table.windowStart
+    ),
+    statusIndex: index("usage_report_status_next_attempt_at_idx").on(
+      table.status,
+      table.nextAttemptAt
+    ),
+  })
+);
+
+export const usageReportRelations = relations(usageReport, ({ one }) => ({
+  user: one(user, {
+    fields: [usageReport.userId],
+    references: [user.id],
+  }),
+}));
+
+/**
+ * Stripe webhook events received (lib/services/stripe-events.ts)
+ * Keyed by Stripe's event id, so redelivered events are recognised. The payload is kept
+ * for replays, and `completedHooks` records which app hooks have run so none runs twice.
+ */
+export const stripeEvent = pgTable(
+  "stripe_event",
+  {
+    // Stripe event id (evt_...)
+    id: text("id").primaryKey(),
+
+    type: text("type").notNull(),
+    payload: jsonb("payload").notNull(),
+    livemode: boolean("livemode").notNull(),
+    // When Stripe created the event
+    stripeCreatedAt: timestamp("stripe_created_at").notNull(),
+
+    // pending -> processing -> processed, or failed (replayable)
+    status: text("status").notNull().default("pending"),
+    completedHooks: jsonb("completed_hooks").$type<string[]>().notNull().default([]),
+    attempts: integer("attempts").notNull().default(0),
+    // Redeliveries of an event already stored
+    deliveries: integer("deliveries").notNull().default(1),
+    lastError: text("last_error"),
+
+    receivedAt: timestamp("received_at").defaultNow().notNull(),
+    processingStartedAt: timestamp("processing_started_at"),
+    processedAt: timestamp("processed_at"),
+  },
+  (table) => ({
+    statusIndex: index("stripe_event_status_idx").on(table.status),
+    typeIndex: index("stripe_event_type_idx").on(table.type),
+  })
+);
+
+/**
+ * Transactional emails sent (lib/services/email-service.ts)
+ * Emails sent with a `dedupeKey` are sent once per key, however often the webhook or
+ * reminder job that triggers them runs.
+ */
+export const emailDelivery = pgTable(
+  "email_delivery",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => createId()),
+
+    userId: text("user_id").references(() => user.id, { onDelete: "cascade" }),
+
+    template: text("template").notNull(),
+    to: text("to").notNull(),
+    dedupeKey: text("dedupe_key"),
+
+    // pending -> sent, or failed (sent again on the next trigger); skipped while delivery is disabled
+    status: text("status").notNull().default("pending"),
+    transport: text("transport").notNull(),
+    // Id assigned by the transport (Resend email id)
+    messageId: text("message_id"),
+    lastError: text("last_error"),
+
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    sentAt: timestamp("sent_at"),
+  },
+  (table) => ({
+    dedupeKeyIndex: uniqueIndex("email_delivery_dedupe_key_idx").on(table.dedupeKey),
+    userIdIndex: index("email_delivery_user_id_idx").on(table.userId),
+  })
+);
+
+export const emailDeliveryRelations = relations(emailDelivery, ({ one }) => ({
+  user: one(user, {
+    fields: [emailDelivery.userId],
+    references: [user.id],
+  }),
+}));
@@ -0,0 +1,128 @@
+/**
+ * MCP Prompt Registry
+ *
+ * Declarative prompt definitions for the MCP server, mirroring the tool registry.
+ * Each prompt is described once with `definePrompt()` and registered by `registerPrompts()`.
+ *
+ * Prompt arguments are always strings (MCP spec). Wrap an argument with `completable()`
+ * from "@modelcontextprotocol/sdk/server/completable.js" to offer argument completion;
+ * it must be the outermost wrapper (not followed by `.optional()`) for the server to find it.
+ *
+ * TEMPLATE: Add new prompts under lib/mcp/prompts/ and list them in lib/mcp/prompts/index.ts
+ */
+
+import type { z, ZodOptional, ZodType, ZodTypeAny, ZodTypeDef } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { PromptMessage } from "@modelcontextprotocol/sdk/types.js";
+import type { McpSession } from "@/lib/auth/mcp-auth";
+import { logger } from "@/lib/services/logger-service";
+import { getRequestSession } from "./request-context";
+
+/**
+ * Zod shape of prompt arguments (string-valued, optionally completable)
+ */
+export type PromptArgsShape = Record<
+  string,
+  ZodType<string, ZodTypeDef, string> | ZodOptional<ZodType<string, ZodTypeDef, string>>
+>;
+
+/**
+ * Arguments as received by the handler (after zod parsing)
+ */
+export type PromptArgs<TArgs extends PromptArgsShape> = z.objectOutputType<TArgs, ZodTypeAny>;
+
+/**
+ * Context passed to every prompt handler
+ */
+export interface PromptContext {
+  /** Session of the current request (null when unauthenticated) */
+  session: McpSession | null;
+}
+
+/**
+ * Declarative prompt definition
+ */
+export interface PromptDefinition<
+  TName extends string = string,
+  TArgs extends PromptArgsShape = PromptArgsShape,
+> {
+  /** Prompt name as exposed to the MCP client (e.g. "greet") */
+  name: TName;
+
+  /** Human-readable title shown in the client's prompt picker */
+  title: string;
+
+  /** Description of what the prompt does */
+  description: string;
+
+  /** Zod shape of the prompt arguments */
+  argsSchema: TArgs;
+
+  /**
+   * Build the prompt messages
+   * Declared as a method so definitions with specific schemas remain assignable to PromptDefinition
+   */
+  handler(args: PromptArgs<TArgs>, context: PromptContext): Promise<PromptMessage[]>;
+}
+
+/**
+ * Define a prompt with full type inference from its zod arguments
+ *
+ * @example
+ * ```typescript
+ * export const summarizeItemsPrompt = definePrompt({
+ *   name: "summarize_items",
+ *   title: "Summarize Items",
+ *   description: "Summarize the user's items",
+ *   argsSchema: {
+ *     period: completable(z.string(), (value) =>
+ *       ["week", "month", "year"].filter((period) => period.startsWith(value))
+ *     ),
+ *   },
+ *   handler: async ({ period }) => [
+ *     createUserMessage(`Call get_items and summarize my items from the last ${period}.`),
+ *   ],
+ * });
+ * ```
+ */
+export function definePrompt<TName extends string, TArgs extends PromptArgsShape>(
+  definition: PromptDefinition<TName, TArgs>
+): PromptDefinition<TName, TArgs> {
+  return definition;
+}
+
+/**
+ * Create a text message sent on behalf of the user
+ */
+export function createUserMessage(text: string): PromptMessage {
+  return { role: "user", content: { type: "text", text } };
+}
+
+/**
+ * Register every prompt definition with the MCP server
+ *
+ * @param server - MCP server instance provided by createMcpHandler
+ * @param prompts - Prompt definitions to register
+ */
+export function registerPrompts(server: McpServer, prompts: readonly PromptDefinition[]): void {
+  for (const prompt of prompts) {
+    logger.debug(`[MCP] Registering prompt: ${prompt.name}`);
+
+    server.registerPrompt(
+      prompt.name,
+      {
+        title: prompt.title,
+        description: prompt.description,
+        argsSchema: prompt.argsSchema,
+      },
+      async (args) => {
+        logger.debug(`[MCP] Prompt requested: ${prompt.name}`, { args });
+
+        return {
+          description: prompt.description,
+          messages: await prompt.handler(args, { session: getRequestSession() }),
+        };
+      }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Greet Prompt
+ *
+ * A simple example prompt that drives the hello_world tool.
+ * TEMPLATE: Copy this file as a starting point for your own prompts
+ */
+
+import { z } from "zod";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import { createUserMessage, definePrompt } from "@/lib/mcp/prompt-registry";
+
+const TONES = ["friendly", "formal", "enthusiastic", "pirate"];
+
+export const greetPrompt = definePrompt({
+  name: "greet",
+  title: "Greet Someone",
+  description: "Greet someone by name using the Say Hello tool",
+  argsSchema: {
+    name: z.string().describe("Who to greet"),
+    // Suggest tones as the user types
+    tone: completable(z.string().describe("Tone of the greeting (e.g. friendly)"), (value) =>
+      TONES.filter((tone) => tone.startsWith(value.toLowerCase()))
+    ),
+  },
+  handler: async ({ name, tone }) => [
+    createUserMessage(
+      `Use the hello_world tool to greet ${name}, then add a short ${tone} welcome message.`
+    ),
+  ],
+});
@@ -0,0 +1,10 @@
+/**
+ * Prompt Definitions
+ *
+ * Every prompt exposed by the MCP server.
+ * TEMPLATE: Import your prompt definitions and add them to this list
+ */
+
+import { greetPrompt } from "./greet";
+
+export const prompts = [greetPrompt] as const;
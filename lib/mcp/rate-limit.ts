@@ -0,0 +1,163 @@
+/**
+ * MCP Tool Rate Limiting
+ *
+ * Sliding-window limiter for `tools/call`, backed by the shared Redis client (lib/db/redis.ts).
+ * Limits apply per user and per tool. A tool's `rateLimit` option overrides the per-plan
+ * `toolCallsPerMinute` in PLAN_LIMITS; users without a plan get DEFAULT_TOOL_CALLS_PER_MINUTE.
+ * Anonymous calls (tools with `auth: { required: false }`) are not limited here.
+ *
+ * Redis failures fail open: a limiter outage must not take every tool down with it.
+ *
+ * Configuration (environment):
+ * - MCP_RATE_LIMIT_ENABLED  Set to "false" to disable tool rate limiting (default: enabled)
+ */
+
+import { createId } from "@paralleldrive/cuid2";
+import { redis } from "@/lib/db/redis";
+import { FEATURES } from "@/lib/config/features";
+import { isPlanName } from "@/lib/config/plans";
+import { logger } from "@/lib/services/logger-service";
+import { DEFAULT_TOOL_CALLS_PER_MINUTE, PLAN_LIMITS } from "@/lib/utils/plan-limits";
+import type { PlanName } from "@/lib/utils/plan-limits";
+import { getSubscriptionTier } from "@/lib/utils/subscription-helpers";
+
+const DEFAULT_WINDOW_MS = 60_000;
+
+const KEY_PREFIX = "mcp:ratelimit";
+
+/**
+ * Per-tool rate limit, set with `rateLimit` on a tool definition
+ */
+export interface ToolRateLimit {
+  /** Calls allowed per window for every plan not listed in `plans` (default: the plan's toolCallsPerMinute) */
+  limit?: number;
+
+  /** Window length in milliseconds (default: 60000) */
+  windowMs?: number;
+
+  /** Calls allowed per window for specific plans, overriding `limit` */
+  plans?: Partial<Record<PlanName, number>>;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+
+  /** Milliseconds until the next call is allowed (0 when allowed) */
+  retryAfterMs: number;
+}
+
+/**
+ * Redis commands the limiter needs - an ioredis client or a test stand-in
+ */
+export interface RateLimitStore {
+  eval(script: string, numKeys: number, ...args: (string | number)[]): Promise<unknown>;
+}
+
+/**
+ * Sliding-window log: one sorted-set entry per call, scored by its timestamp.
+ * Runs atomically so concurrent calls can't both take the last slot.
+ *
+ * KEYS[1] = bucket, ARGV = now, windowMs, limit, unique member
+ * Returns { allowed (0/1), remaining, retryAfterMs }
+ */
+const SLIDING_WINDOW_SCRIPT = `
+local key = KEYS[1]
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+
+redis.call("ZREMRANGEBYSCORE", key, "-inf", now - window)
+local count = redis.call("ZCARD", key)
+
+if count < limit then
+  redis.call("ZADD", key, now, ARGV[4])
+  redis.call("PEXPIRE", key, window)
+  return { 1, limit - count - 1, 0 }
+end
+
+local oldest = redis.call("ZRANGE", key, 0, 0, "WITHSCORES")
+return { 0, 0, tonumber(oldest[2]) + window - now }
+`;
+
+/**
+ * Record a call against a sliding window, unless the window is full
+ *
+ * @param key - Bucket to count against (e.g. one user's calls to one tool)
+ * @param limit - Calls allowed within any `windowMs` span (0 or less denies every call)
+ */
+export async function consumeRateLimit(
+  key: string,
+  limit: number,
+  windowMs: number,
+  store: RateLimitStore = redis,
+  now: number = Date.now()
+): Promise<RateLimitResult> {
+  // Nothing to count against: the script would read the oldest call of an empty window and fail
+  if (limit <= 0) {
+    return { allowed: false, limit: 0, remaining: 0, retryAfterMs: windowMs };
+  }
+
+  const [allowed, remaining, retryAfterMs] = (await store.eval(
+    SLIDING_WINDOW_SCRIPT,
+    1,
+    key,
+    now,
+    windowMs,
+    limit,
+    `${now}:${createId()}`
+  )) as [number, number, number];
+
+  return {
+    allowed: allowed === 1,
+    limit,
+    remaining,
+    retryAfterMs: Math.max(retryAfterMs, 0),
+  };
+}
+
+function isRateLimitingEnabled(): boolean {
+  return process.env.MCP_RATE_LIMIT_ENABLED !== "false";
+}
+
+/**
+ * Calls per window for a user's plan, honouring the tool's overrides
+ */
+function resolveLimit(rateLimit: ToolRateLimit, plan: PlanName | null): number {
+  if (plan && rateLimit.plans?.[plan] !== undefined) return rateLimit.plans[plan];
+  if (rateLimit.limit !== undefined) return rateLimit.limit;
+  return plan ? PLAN_LIMITS[plan].toolCallsPerMinute : DEFAULT_TOOL_CALLS_PER_MINUTE;
+}
+
+async function getPlan(userId: string): Promise<PlanName | null> {
+  if (!FEATURES.SUBSCRIPTIONS) return null;
+  const tier = await getSubscriptionTier(userId);
+  return isPlanName(tier) ? tier : null;
+}
+
+/**
+ * Count a tool call against the user's limit for that tool
+ *
+ * @param rateLimit - The tool's `rateLimit` option (`false` opts the tool out)
+ * @returns The limiter's decision, or null when the call isn't limited
+ */
+export async function checkToolRateLimit(
+  toolName: string,
+  rateLimit: ToolRateLimit | false | undefined,
+  userId: string
+): Promise<RateLimitResult | null> {
+  if (rateLimit === false || !isRateLimitingEnabled()) return null;
+
+  const policy = rateLimit ?? {};
+  try {
+    const limit = resolveLimit(policy, await getPlan(userId));
+    if (!Number.isFinite(limit)) return null;
+
+    const windowMs = policy.windowMs ?? DEFAULT_WINDOW_MS;
+    return await consumeRateLimit(`${KEY_PREFIX}:${toolName}:${userId}`, limit, windowMs);
+  } catch (error) {
+    logger.error(`[MCP] Rate limiter unavailable, allowing ${toolName}`, { error, userId });
+    return null;
+  }
+}
@@ -0,0 +1,521 @@
+/**
+ * MCP Tool Registry
+ *
+ * Declarative tool definitions for the MCP server.
+ * Each tool is described once with `defineTool()` and registered by `registerTools()`,
+ * so the server registration and the frontend `AppType` can never drift apart.
+ *
+ * TEMPLATE: Add new tools under lib/mcp/tools/ and list them in lib/mcp/tools/index.ts
+ */
+
+import { z } from "zod";
+import type { ZodRawShape, ZodTypeAny } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type {
+  MCPContent,
+  MCPToolResponse,
+  OpenAIResponseMetadata,
+} from "@/lib/types/mcp-responses";
+import type { AuthChallengeContent } from "@/lib/types/tool-responses";
+import { AuthResponseSchema } from "@/lib/types/tool-responses";
+import type {
+  OpenAIMetadata,
+  ToolAnnotations,
+  ToolSecurityScheme,
+} from "@/lib/types/openai-metadata";
+import type { McpSession } from "@/lib/auth/mcp-auth";
+import type { OAuthScope } from "@/lib/auth/scopes";
+import type { Entitlement } from "@/lib/config/plans";
+import type { AuthRequirements } from "@/lib/utils/mcp-auth-helpers";
+import { logger } from "@/lib/services/logger-service";
+import type { Logger } from "@/lib/services/logger-service";
+import { withSpan } from "@/lib/services/telemetry";
+import { checkUsageQuota, recordUsage } from "@/lib/services/usage-service";
+import {
+  createAuthChallengeResponse,
+  createErrorResponse,
+  createQuotaExceededResponse,
+  createRateLimitResponse,
+  PROTECTED_RESOURCE_METADATA_URL,
+} from "@/lib/utils/mcp-response-helpers";
+import { requireAuth } from "@/lib/utils/mcp-auth-helpers";
+import { extractOpenAIMetadata } from "@/lib/utils/metadata";
+import { getRequestId, getRequestSession } from "@/lib/mcp/request-context";
+import { REQUEST_ID_META_KEY } from "@/lib/utils/request-id";
+import { recordTraceError } from "@/lib/mcp/tracing";
+import { checkToolRateLimit } from "@/lib/mcp/rate-limit";
+import type { ToolRateLimit } from "@/lib/mcp/rate-limit";
+import { AUTH_WIDGETS, getWidgetUri, getWidgetUrl } from "@/lib/mcp/widgets";
+import { defineResource } from "@/lib/mcp/resource-registry";
+import type { ResourceDefinition } from "@/lib/mcp/resource-registry";
+import { baseURL } from "@/baseUrl";
+
+/**
+ * Arguments as sent by the caller (optional fields may be omitted)
+ */
+export type ToolInput<TInput extends ZodRawShape> = z.objectInputType<TInput, ZodTypeAny>;
+
+/**
+ * Arguments as received by the handler (after zod parsing and defaults)
+ */
+export type ToolArgs<TInput extends ZodRawShape> = z.objectOutputType<TInput, ZodTypeAny>;
+
+/**
+ * Structured content produced by a tool
+ */
+export type ToolOutput<TOutput extends ZodRawShape> = z.objectOutputType<TOutput, ZodTypeAny>;
+
+/**
+ * Response a tool handler may return: its own structured content, or an error/auth response
+ */
+export type ToolResult<TOutput extends ZodRawShape> =
+  | MCPToolResponse<ToolOutput<TOutput>>
+  | MCPToolResponse<AuthChallengeContent>;
+
+/**
+ * Authentication policy enforced by registerTools before the handler runs
+ */
+export interface ToolAuthPolicy {
+  /**
+   * Require an authenticated session (default: true)
+   * When false, the tool is advertised as `noauth` and anonymous calls run the
+   * handler with a null session; the checks below still apply to authenticated callers.
+   */
+  required?: boolean;
+
+  /** Require an active subscription (default: true if subscriptions enabled) */
+  subscription?: boolean;
+
+  /** Require a passkey to be enabled (default: false) */
+  passkey?: boolean;
+
+  /**
+   * OAuth scopes the access token must have been granted (default: none)
+   * Calls without them get an insufficient_scope challenge. Register new scopes in lib/auth/scopes.ts
+   */
+  scopes?: OAuthScope[];
+
+  /**
+   * Named features the user's plan, trial or add-ons must include (default: none)
+   * Subscribers without them get an upgrade prompt naming the plans that do. Define them in lib/config/plans.ts
+   */
+  entitlement?: Entitlement | Entitlement[];
+
+  /** Custom validation run after all other checks */
+  custom?: AuthRequirements["customCheck"];
+}
+
+/**
+ * Context passed to every tool handler
+ * The session is non-null unless the tool opts out with `auth: { required: false }`
+ */
+export interface ToolContext<TAuth extends ToolAuthPolicy = ToolAuthPolicy> {
+  session: TAuth extends { required: false } ? McpSession | null : McpSession;
+
+  /** OpenAI metadata sent with the call (locale, location, user agent) */
+  metadata?: OpenAIMetadata;
+
+  /** Logger bound to this call's request id, tool and user */
+  logger: Logger;
+}
+
+/**
+ * Declarative tool definition
+ */
+export interface ToolDefinition<
+  TName extends string = string,
+  TInput extends ZodRawShape = ZodRawShape,
+  TOutput extends ZodRawShape = ZodRawShape,
+  TAuth extends ToolAuthPolicy = ToolAuthPolicy,
+> {
+  /** Unique tool name (snake_case, used by the model and by useCallTool) */
+  name: TName;
+
+  /** Human-readable title shown in ChatGPT */
+  title: string;
+
+  /** Description surfaced to the model to decide when to call the tool */
+  description: string;
+
+  /** Zod shape of the tool arguments */
+  inputSchema: TInput;
+
+  /**
+   * Zod shape of the structuredContent returned on success
+   * Advertised in tools/list and validated against every successful response
+   */
+  outputSchema: TOutput;
+
+  /**
+   * Widget rendering the result, by name (e.g. "hello-world" for app/widgets/hello-world/page.tsx)
+   * Resolved to its template URI and page URL by lib/mcp/widgets.ts
+   */
+  widget?: string;
+
+  /** Widget description surfaced to the model when the component loads (default: tool description) */
+  widgetDescription?: string;
+
+  /** Render the widget inside a bordered card */
+  widgetPrefersBorder?: boolean;
+
+  /** Domains the widget may connect to / load resources from (default: the app origin) */
+  widgetCSP?: OpenAIResponseMetadata["openai/widgetCSP"];
+
+  /** Dedicated domain the widget is rendered under (default: the app origin) */
+  widgetDomain?: string;
+
+  /** Behavior hints for ChatGPT (read-only, destructive, open world) */
+  annotations?: Partial<ToolAnnotations>;
+
+  /** Authentication requirements (default: signed in, subscription if enabled) */
+  auth?: TAuth;
+
+  /**
+   * Argument fields masked in request traces, in addition to DEFAULT_REDACTED_FIELDS
+   * Field names match at any depth; dot paths ("address.street") match one field
+   */
+  redact?: string[];
+
+  /**
+   * Per-user call limit for this tool (default: the caller's plan `toolCallsPerMinute`)
+   * Set to `false` to skip rate limiting, e.g. for cheap read-only tools
+   */
+  rateLimit?: ToolRateLimit | false;
+
+  /**
+   * Usage units charged per successful call against the monthly plan quota (default: 1)
+   * Set to 0 for calls that shouldn't count, e.g. checking usage itself
+   */
+  cost?: number;
+
+  /**
+   * Tool implementation
+   * Declared as a method so definitions with specific schemas remain assignable to ToolDefinition
+   */
+  handler(args: ToolArgs<TInput>, context: ToolContext<TAuth>): Promise<ToolResult<TOutput>>;
+}
+
+/**
+ * Define a tool with full type inference from its zod schemas
+ *
+ * @example
+ * ```typescript
+ * export const getItemsTool = defineTool({
+ *   name: "get_items",
+ *   title: "Get Items",
+ *   description: "List the user's items",
+ *   inputSchema: { limit: z.number().optional() },
+ *   outputSchema: { items: z.array(z.string()) },
+ *   widget: "items",
+ *   annotations: { readOnlyHint: true },
+ *   auth: { subscription: true },
+ *   handler: async ({ limit = 10 }, { session }) => {
+ *     const items = await getItems(session.userId, limit);
+ *     return createSuccessResponse("Here are your items", { items });
+ *   },
+ * });
+ * ```
+ */
+export function defineTool<
+  TName extends string,
+  TInput extends ZodRawShape,
+  TOutput extends ZodRawShape,
+  TAuth extends ToolAuthPolicy = ToolAuthPolicy,
+>(
+  definition: ToolDefinition<TName, TInput, TOutput, TAuth>
+): ToolDefinition<TName, TInput, TOutput, TAuth> {
+  return definition;
+}
+
+/**
+ * Frontend type map derived from a list of tool definitions
+ * Consumed by useCallTool in src/mcp-ui-hooks.ts
+ */
+export type InferAppType<TTools extends readonly ToolDefinition[]> = {
+  [TTool in TTools[number] as TTool["name"]]: {
+    input: ToolInput<TTool["inputSchema"]>;
+    result: {
+      content: MCPContent[];
+      structuredContent: ToolOutput<TTool["outputSchema"]>;
+    };
+  };
+};
+
+/**
+ * Schema registered with the SDK so the output schema is advertised in tools/list.
+ *
+ * The SDK also validates structuredContent against the registered schema and rejects
+ * mismatches itself, which would bypass our dev/production policy below and reject
+ * auth challenge responses. The catch() keeps the advertised JSON Schema identical
+ * while leaving enforcement to validateStructuredContent().
+ */
+function advertisedOutputSchema(outputSchema: ZodRawShape): z.ZodType<object> {
+  const lenient = z
+    .object(outputSchema)
+    .catch((ctx: { input: Record<string, unknown> }) => ctx.input);
+  // ZodCatch accepts unknown input, which the SDK's registerTool typing does not allow
+  return lenient as unknown as z.ZodType<object>;
+}
+
+/**
+ * Validate a successful tool response against the tool's declared outputSchema.
+ * Auth challenge responses (login, subscription, security) are always accepted.
+ *
+ * @returns List of violations, or null if the response is valid
+ */
+function validateStructuredContent(
+  tool: ToolDefinition,
+  result: ToolResult<ZodRawShape>
+): string[] | null {
+  const parsed = z.object(tool.outputSchema).safeParse(result.structuredContent);
+  if (parsed.success) return null;
+
+  if (AuthResponseSchema.safeParse(result.structuredContent).success) return null;
+
+  return parsed.error.issues.map(
+    (issue) => `${issue.path.join(".") || "structuredContent"}: ${issue.message}`
+  );
+}
+
+/**
+ * Security schemes advertised in the tool descriptor, derived from its auth policy
+ */
+function securitySchemesFor(tool: ToolDefinition): ToolSecurityScheme[] {
+  const policy = tool.auth ?? {};
+  const oauth2: ToolSecurityScheme = policy.scopes?.length
+    ? { type: "oauth2", scopes: policy.scopes }
+    : { type: "oauth2" };
+
+  return policy.required === false ? [{ type: "noauth" }, oauth2] : [oauth2];
+}
+
+/**
+ * Run a tool's auth policy against the current session
+ *
+ * @returns Login/subscription/security/scope challenge, or null if the handler may run
+ */
+async function enforceAuthPolicy(
+  tool: ToolDefinition,
+  session: McpSession | null
+): Promise<ToolResult<ZodRawShape> | null> {
+  const policy = tool.auth ?? {};
+
+  if (!session) {
+    // Anonymous callers of public tools skip the remaining checks
+    if (policy.required === false) return null;
+
+    // oauth2-only tool called without a token: ask ChatGPT to start the OAuth flow
+    return createAuthChallengeResponse(
+      PROTECTED_RESOURCE_METADATA_URL,
+      `Sign in to use ${tool.title}`,
+      "invalid_token"
+    );
+  }
+
+  return requireAuth(session, tool.title, {
+    requireSubscription: policy.subscription,
+    requireSecurity: policy.passkey,
+    requireScopes: policy.scopes,
+    requireEntitlement: policy.entitlement,
+    customCheck: policy.custom,
+  });
+}
+
+/**
+ * Fetch the rendered HTML of a widget page from the running Next.js app
+ */
+async function fetchWidgetHtml(widget: string): Promise<string> {
+  const response = await fetch(getWidgetUrl(widget));
+  if (!response.ok) {
+    throw new Error(`Failed to load widget ${widget}: ${response.status} ${response.statusText}`);
+  }
+  return response.text();
+}
+
+/**
+ * Widget template source: a tool with a `widget`, or an entry of AUTH_WIDGETS
+ */
+type WidgetTemplate = Pick<
+  ToolDefinition,
+  "name" | "title" | "description" | "widgetDescription" | "widgetPrefersBorder" | "widgetCSP" | "widgetDomain"
+> & { widget: string };
+
+/**
+ * Resource definition serving a widget page as a `text/html+skybridge` template
+ */
+function widgetResource(tool: WidgetTemplate): ResourceDefinition {
+  const description = tool.widgetDescription ?? tool.description;
+  const appOrigins = baseURL ? [new URL(baseURL).origin] : [];
+  const widgetMeta = {
+    "openai/widgetDescription": description,
+    "openai/widgetPrefersBorder": tool.widgetPrefersBorder ?? false,
+    "openai/widgetCSP": tool.widgetCSP ?? {
+      connect_domains: appOrigins,
+      resource_domains: appOrigins,
+    },
+    ...((tool.widgetDomain ?? appOrigins[0]) && {
+      "openai/widgetDomain": tool.widgetDomain ?? appOrigins[0],
+    }),
+  } satisfies Partial<OpenAIResponseMetadata>;
+
+  return defineResource({
+    name: `${tool.name}_widget`,
+    title: `${tool.title} widget`,
+    description,
+    uri: getWidgetUri(tool.widget),
+    mimeType: "text/html+skybridge",
+    _meta: widgetMeta,
+    // Templates hold no user data - clients fetch them before the user signs in
+    auth: { required: false },
+    read: async () => ({
+      text: await fetchWidgetHtml(tool.widget),
+      _meta: widgetMeta,
+    }),
+  });
+}
+
+/**
+ * Widget templates of every tool with a `widget`, and the auth widgets, for registerResources()
+ * Lets clients discover the templates via resources/list before calling the tools.
+ * Tools can share a widget: its template is registered once, named after the first of them.
+ */
+export function widgetResources(tools: readonly ToolDefinition[]): ResourceDefinition[] {
+  const templates = new Map<string, WidgetTemplate>();
+  for (const template of [
+    ...tools.filter((tool): tool is ToolDefinition & { widget: string } => !!tool.widget),
+    ...AUTH_WIDGETS,
+  ]) {
+    if (!templates.has(template.widget)) templates.set(template.widget, template);
+  }
+  return [...templates.values()].map(widgetResource);
+}
+
+/**
+ * Run a tool call: auth policy, handler and output validation
+ */
+async function callTool(
+  tool: ToolDefinition,
+  args: ToolArgs<ZodRawShape>,
+  meta: Record<string, unknown> | undefined
+): Promise<CallToolResult> {
+  // The server is shared by every request - the caller's session comes from the request context
+  const session = getRequestSession();
+  const toolLogger = logger.child({
+    requestId: getRequestId(),
+    tool: tool.name,
+    userId: session?.userId,
+  });
+  toolLogger.debug(`[MCP] Tool called: ${tool.name}`, { args });
+
+  const authChallenge = await enforceAuthPolicy(tool, session);
+  if (authChallenge) return authChallenge;
+
+  const cost = tool.cost ?? 1;
+  if (session) {
+    const rateLimit = await checkToolRateLimit(tool.name, tool.rateLimit, session.userId);
+    if (rateLimit && !rateLimit.allowed) {
+      toolLogger.warn(`[MCP] Rate limit exceeded: ${tool.name}`, { limit: rateLimit.limit });
+      return createRateLimitResponse(tool.title, rateLimit.limit, rateLimit.retryAfterMs);
+    }
+
+    if (cost > 0) {
+      const usage = await checkUsageQuota(session.userId, cost);
+      if (!usage.allowed) {
+        toolLogger.info(`[MCP] Usage quota reached: ${tool.name}`, { used: usage.used, quota: usage.quota });
+        return createQuotaExceededResponse(tool.title, usage);
+      }
+    }
+  }
+
+  // enforceAuthPolicy guarantees a session unless the tool allows anonymous calls
+  const context = {
+    session,
+    metadata: extractOpenAIMetadata({ _meta: meta }),
+    logger: toolLogger,
+  } as ToolContext;
+
+  const result = await withSpan(
+    `tool ${tool.name}`,
+    { "mcp.tool.name": tool.name },
+    async (span) => {
+      try {
+        const toolResult = await tool.handler(args, context);
+        span.setAttribute("mcp.tool.is_error", !!toolResult.isError);
+        return toolResult;
+      } catch (error) {
+        recordTraceError(error);
+        throw error;
+      }
+    }
+  );
+  if (result.isError) return result;
+
+  const violations = validateStructuredContent(tool, result);
+  if (violations) {
+    // Surface mismatches to developers, but never break production calls over them
+    if (process.env.NODE_ENV !== "production") {
+      const message = `Output validation error: ${tool.name} returned structuredContent that does not match its outputSchema (${violations.join("; ")})`;
+      return {
+        ...createErrorResponse(message, { "mcp/outputViolations": violations }),
+        // Strict clients validate structuredContent against the advertised schema even on errors
+        structuredContent: undefined,
+      };
+    }
+
+    toolLogger.error(`[MCP] Output schema violation: ${tool.name}`, { violations });
+    return result;
+  }
+
+  // Only successful calls with valid output count against the quota
+  if (session) {
+    try {
+      await recordUsage({ userId: session.userId, tool: tool.name, units: cost, requestId: getRequestId() });
+    } catch (error) {
+      toolLogger.error(`[MCP] Failed to record usage: ${tool.name}`, { error });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Register every tool definition with the MCP server
+ *
+ * @param server - MCP server instance provided by createMcpHandler
+ * @param tools - Tool definitions to register
+ */
+export function registerTools(server: McpServer, tools: readonly ToolDefinition[]): void {
+  for (const tool of tools) {
+    logger.debug(`[MCP] Registering tool: ${tool.name}`);
+
+    server.registerTool(
+      tool.name,
+      {
+        title: tool.title,
+        description: tool.description,
+        inputSchema: tool.inputSchema,
+        outputSchema: advertisedOutputSchema(tool.outputSchema),
+        annotations: tool.annotations,
+        _meta: {
+          securitySchemes: securitySchemesFor(tool),
+          // Link tool to its widget template
+          ...(tool.widget && { "openai/outputTemplate": getWidgetUri(tool.widget) }),
+          "openai/toolInvocation/invoking": `Running ${tool.title}...`,
+          "openai/toolInvocation/invoked": `${tool.title} complete`,
+          // Allow widget to call tools via window.openai.callTool
+          "openai/widgetAccessible": true,
+        },
+      },
+      async (args, extra) => {
+        const result = await callTool(tool, args, extra._meta);
+
+        // Echo the correlation id so widgets can send it with their own requests
+        const requestId = getRequestId();
+        return requestId
+          ? { ...result, _meta: { ...result._meta, [REQUEST_ID_META_KEY]: requestId } }
+          : result;
+      }
+    );
+  }
+}
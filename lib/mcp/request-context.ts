@@ -0,0 +1,75 @@
+/**
+ * MCP Request Context
+ *
+ * The MCP server is built once and shared by every request, so per-request state
+ * (the caller's session) travels through AsyncLocalStorage instead of registration closures.
+ * The route wraps each request in `runWithMcpRequestContext()`; tool, prompt and resource
+ * handlers read it back with `getRequestSession()`.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { McpSession } from "@/lib/auth/mcp-auth";
+
+export interface McpRequestContext {
+  /** Session of the current request (null when unauthenticated) */
+  session: McpSession | null;
+
+  /** Transport the request arrived on */
+  transport: "streamable-http" | "sse";
+
+  /** Correlation id from middleware.ts (for SSE, the id of the request that opened the connection) */
+  requestId: string;
+}
+
+const storage = new AsyncLocalStorage<McpRequestContext>();
+
+/**
+ * Run a request handler with its context available to every MCP handler it triggers
+ */
+export function runWithMcpRequestContext<T>(context: McpRequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Context of the request being handled, if any
+ */
+export function getMcpRequestContext(): McpRequestContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Session of the request being handled (null when unauthenticated or outside a request)
+ */
+export function getRequestSession(): McpSession | null {
+  return storage.getStore()?.session ?? null;
+}
+
+/**
+ * Correlation id of the request being handled, if any
+ */
+export function getRequestId(): string | undefined {
+  return storage.getStore()?.requestId;
+}
+
+/**
+ * Pin the current context to a server that outlives the request creating it
+ *
+ * SSE connections get a server of their own, but their messages are delivered through
+ * Redis callbacks that run outside the connection's async context. Re-entering the
+ * context for every incoming message keeps `getRequestSession()` bound to the connection's user.
+ */
+export function pinMcpRequestContext(server: McpServer): void {
+  const context = storage.getStore();
+  if (!context) return;
+
+  const connect = server.connect.bind(server);
+  server.connect = async (transport) => {
+    await connect(transport);
+
+    const onmessage = transport.onmessage;
+    transport.onmessage = (message, extra) => {
+      storage.run(context, () => onmessage?.(message, extra));
+    };
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * MCP Resource Update Notifications
+ *
+ * Fans out "this resource changed" events to every server instance over Redis pub/sub,
+ * so clients that called `resources/subscribe` receive `notifications/resources/updated`
+ * no matter which instance wrote the underlying rows.
+ *
+ * Call `publishResourceUpdated()` wherever resource rows are written
+ * (see the Better Auth hooks in lib/auth/index.ts).
+ */
+
+import { EventEmitter } from "node:events";
+import type Redis from "ioredis";
+import { createId } from "@paralleldrive/cuid2";
+import { redis } from "@/lib/db/redis";
+import { logger } from "@/lib/services/logger-service";
+
+const CHANNEL = "mcp:resources:updated";
+
+// Lets this instance ignore its own messages (they are already emitted locally)
+const INSTANCE_ID = createId();
+
+export interface ResourceUpdatedEvent {
+  /** Concrete resource URI that changed (e.g. "app://user/abc123/profile") */
+  uri: string;
+
+  /** Owner of the resource - only that user's subscribers are notified (omit for shared resources) */
+  userId?: string;
+}
+
+const emitter = new EventEmitter();
+// One listener per live MCP server with subscriptions
+emitter.setMaxListeners(0);
+
+let subscriber: Redis | null = null;
+
+/**
+ * Start listening for events published by other instances (once per process)
+ */
+function ensureSubscriber(): void {
+  if (subscriber) return;
+
+  // A subscribed ioredis connection can't run other commands, so use a dedicated one
+  subscriber = redis.duplicate();
+  subscriber.subscribe(CHANNEL).catch((error: Error) => {
+    logger.error("[MCP] Failed to subscribe to resource updates", { error: error.message });
+  });
+  subscriber.on("message", (_channel: string, message: string) => {
+    try {
+      const { origin, ...event } = JSON.parse(message) as ResourceUpdatedEvent & { origin: string };
+      if (origin !== INSTANCE_ID) {
+        emitter.emit("updated", event);
+      }
+    } catch (error) {
+      logger.warn("[MCP] Ignoring malformed resource update", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+}
+
+/**
+ * Notify subscribers that a resource's underlying rows changed
+ * Never throws - a failed notification must not fail the write that triggered it
+ */
+export async function publishResourceUpdated(event: ResourceUpdatedEvent): Promise<void> {
+  emitter.emit("updated", event);
+
+  try {
+    await redis.publish(CHANNEL, JSON.stringify({ ...event, origin: INSTANCE_ID }));
+  } catch (error) {
+    logger.warn("[MCP] Failed to publish resource update", {
+      uri: event.uri,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Listen for resource updates from this and every other instance
+ *
+ * @returns Function that removes the listener
+ */
+export function onResourceUpdated(listener: (event: ResourceUpdatedEvent) => void): () => void {
+  ensureSubscriber();
+  emitter.on("updated", listener);
+  return () => {
+    emitter.off("updated", listener);
+  };
+}
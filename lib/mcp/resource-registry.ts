@@ -0,0 +1,415 @@
+/**
+ * MCP Resource Registry
+ *
+ * Declarative resource definitions for the MCP server, mirroring the tool registry.
+ * Each resource is described once with `defineResource()` and registered by `registerResources()`,
+ * which also provides:
+ * - URI templates (`app://user/{id}/profile`) alongside fixed URIs (`app://subscription/current`)
+ * - Per-user authorization against the request's MCP session
+ * - Cursor pagination on `resources/list`
+ * - `resources/subscribe` with `notifications/resources/updated` on SSE connections (see resource-notifications.ts)
+ *
+ * TEMPLATE: Add new resources under lib/mcp/resources/ and list them in lib/mcp/resources/index.ts
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { UriTemplate } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { ReadResourceResult, Resource } from "@modelcontextprotocol/sdk/types.js";
+import type { McpSession } from "@/lib/auth/mcp-auth";
+import { logger } from "@/lib/services/logger-service";
+import { onResourceUpdated } from "./resource-notifications";
+import { getMcpRequestContext, getRequestSession } from "./request-context";
+
+/**
+ * Maximum number of resources returned per `resources/list` page
+ */
+export const RESOURCE_PAGE_SIZE = 50;
+
+/**
+ * Authentication policy enforced by registerResources before the handler runs
+ */
+export interface ResourceAuthPolicy {
+  /**
+   * Require an authenticated session (default: true)
+   * When false, the resource is listed and readable without a token
+   */
+  required?: boolean;
+}
+
+/**
+ * Context passed to every resource handler
+ * The session is non-null unless the resource opts out with `auth: { required: false }`
+ */
+export interface ResourceContext<TAuth extends ResourceAuthPolicy = ResourceAuthPolicy> {
+  session: TAuth extends { required: false } ? McpSession | null : McpSession;
+}
+
+/**
+ * Values of the URI template variables (empty for fixed URIs)
+ */
+export type ResourceVariables = Record<string, string>;
+
+/**
+ * Body of a resource read
+ */
+export interface ResourceContent {
+  text: string;
+
+  /** Overrides the definition's mimeType */
+  mimeType?: string;
+
+  /** Metadata attached to the returned contents */
+  _meta?: Record<string, unknown>;
+}
+
+/**
+ * Concrete resource listed for a URI template
+ */
+export type ListedResource = Pick<Resource, "uri" | "name"> & Partial<Pick<Resource, "title" | "description">>;
+
+/**
+ * Declarative resource definition
+ */
+export interface ResourceDefinition<
+  TName extends string = string,
+  TAuth extends ResourceAuthPolicy = ResourceAuthPolicy,
+> {
+  /** Resource name as exposed to the MCP client (e.g. "user_profile") */
+  name: TName;
+
+  /** Human-readable title */
+  title: string;
+
+  /** Description surfaced to the model */
+  description: string;
+
+  /** Fixed URI ("app://subscription/current") or RFC 6570 template ("app://user/{id}/profile") */
+  uri: string;
+
+  /** MIME type of the contents (e.g. "application/json") */
+  mimeType: string;
+
+  /** Metadata advertised with the resource in resources/list */
+  _meta?: Record<string, unknown>;
+
+  /** Authentication requirements (default: signed in) */
+  auth?: TAuth;
+
+  /**
+   * Per-user authorization, run before list and read
+   * Return false to deny access (e.g. when `{id}` is not the caller's user id)
+   */
+  authorize?(variables: ResourceVariables, context: ResourceContext<TAuth>): boolean;
+
+  /**
+   * Concrete resources to include in resources/list
+   * Required for URI templates to appear in the list; fixed URIs are listed automatically
+   */
+  list?(context: ResourceContext<TAuth>): Promise<ListedResource[]>;
+
+  /**
+   * Read the resource
+   * Return null when it doesn't exist
+   */
+  read(variables: ResourceVariables, context: ResourceContext<TAuth>): Promise<ResourceContent | null>;
+}
+
+/**
+ * Define a resource with typed auth context
+ *
+ * @example
+ * ```typescript
+ * export const projectResource = defineResource({
+ *   name: "project",
+ *   title: "Project",
+ *   description: "A project owned by the user",
+ *   uri: "app://project/{id}",
+ *   mimeType: "application/json",
+ *   list: async ({ session }) =>
+ *     (await getProjects(session.userId)).map((project) => ({
+ *       uri: `app://project/${project.id}`,
+ *       name: project.name,
+ *     })),
+ *   read: async ({ id }, { session }) => {
+ *     const project = await getProject(session.userId, id);
+ *     return project ? createJsonContent(project) : null;
+ *   },
+ * });
+ * ```
+ */
+export function defineResource<TName extends string, TAuth extends ResourceAuthPolicy = ResourceAuthPolicy>(
+  definition: ResourceDefinition<TName, TAuth>
+): ResourceDefinition<TName, TAuth> {
+  return definition;
+}
+
+/**
+ * Serialize data as a JSON resource body
+ */
+export function createJsonContent(data: unknown): ResourceContent {
+  return { text: JSON.stringify(data, null, 2), mimeType: "application/json" };
+}
+
+// ============================================================================
+// AUTHORIZATION
+// ============================================================================
+
+function isTemplate(resource: ResourceDefinition): boolean {
+  return resource.uri.includes("{");
+}
+
+/**
+ * Flatten template variables (exploded variables keep their first value)
+ */
+function toResourceVariables(variables: Record<string, string | string[]>): ResourceVariables {
+  return Object.fromEntries(
+    Object.entries(variables).map(([key, value]) => [key, Array.isArray(value) ? value[0] ?? "" : value])
+  );
+}
+
+/**
+ * Check whether the session may access a resource
+ *
+ * @throws McpError when access is denied
+ */
+function assertAccess(
+  resource: ResourceDefinition,
+  uri: string,
+  variables: ResourceVariables,
+  session: McpSession | null
+): ResourceContext {
+  if (!session && resource.auth?.required !== false) {
+    throw new McpError(ErrorCode.InvalidRequest, `Authentication required to access ${uri}`);
+  }
+
+  // Guaranteed above unless the resource allows anonymous access
+  const context = { session } as ResourceContext;
+  if (resource.authorize && !resource.authorize(variables, context)) {
+    logger.warn(`[MCP] Resource access denied: ${uri}`, { userId: session?.userId });
+    throw new McpError(ErrorCode.InvalidRequest, `Access denied to ${uri}`);
+  }
+
+  return context;
+}
+
+/**
+ * Find the definition serving a concrete URI
+ */
+function matchResource(
+  resources: readonly ResourceDefinition[],
+  templates: Map<ResourceDefinition, UriTemplate>,
+  uri: string
+): { resource: ResourceDefinition; variables: ResourceVariables } | null {
+  for (const resource of resources) {
+    const template = templates.get(resource);
+    if (!template) {
+      if (resource.uri === uri) return { resource, variables: {} };
+      continue;
+    }
+    const variables = template.match(uri);
+    if (variables) return { resource, variables: toResourceVariables(variables) };
+  }
+  return null;
+}
+
+// ============================================================================
+// PAGINATION
+// ============================================================================
+
+function encodeCursor(offset: number): string {
+  return Buffer.from(String(offset)).toString("base64url");
+}
+
+function decodeCursor(cursor: string | undefined): number {
+  if (!cursor) return 0;
+  const offset = Number(Buffer.from(cursor, "base64url").toString());
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new McpError(ErrorCode.InvalidParams, "Invalid cursor");
+  }
+  return offset;
+}
+
+/**
+ * Every resource visible to the session, in definition order
+ */
+async function listVisibleResources(
+  resources: readonly ResourceDefinition[],
+  session: McpSession | null
+): Promise<Resource[]> {
+  const listed: Resource[] = [];
+
+  for (const resource of resources) {
+    if (!session && resource.auth?.required !== false) continue;
+    const context = { session } as ResourceContext;
+
+    const metadata = {
+      title: resource.title,
+      description: resource.description,
+      mimeType: resource.mimeType,
+      ...(resource._meta && { _meta: resource._meta }),
+    };
+
+    if (!isTemplate(resource)) {
+      if (resource.authorize && !resource.authorize({}, context)) continue;
+      listed.push({ uri: resource.uri, name: resource.name, ...metadata });
+      continue;
+    }
+
+    for (const entry of (await resource.list?.(context)) ?? []) {
+      listed.push({ ...metadata, ...entry });
+    }
+  }
+
+  return listed;
+}
+
+// ============================================================================
+// REGISTRATION
+// ============================================================================
+
+/**
+ * Register every resource definition with the MCP server
+ *
+ * @param server - MCP server instance provided by createMcpHandler
+ * @param resources - Resource definitions to register
+ */
+export function registerResources(server: McpServer, resources: readonly ResourceDefinition[]): void {
+  if (resources.length === 0) return;
+
+  const templates = new Map<ResourceDefinition, UriTemplate>();
+
+  for (const resource of resources) {
+    logger.debug(`[MCP] Registering resource: ${resource.uri}`);
+
+    const metadata = {
+      title: resource.title,
+      description: resource.description,
+      mimeType: resource.mimeType,
+      ...(resource._meta && { _meta: resource._meta }),
+    };
+
+    const read = async (uri: URL, variables: ResourceVariables): Promise<ReadResourceResult> => {
+      const context = assertAccess(resource, uri.href, variables, getRequestSession());
+      const content = await resource.read(variables, context);
+      if (!content) {
+        throw new McpError(ErrorCode.InvalidParams, `Resource ${uri.href} not found`);
+      }
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: content.mimeType ?? resource.mimeType,
+            text: content.text,
+            ...(content._meta && { _meta: content._meta }),
+          },
+        ],
+      };
+    };
+
+    if (isTemplate(resource)) {
+      // Listing is handled below with pagination, so the SDK list callback stays unset
+      const template = new ResourceTemplate(resource.uri, { list: undefined });
+      templates.set(resource, template.uriTemplate);
+      server.registerResource(resource.name, template, metadata, (uri, variables) =>
+        read(uri, toResourceVariables(variables))
+      );
+    } else {
+      server.registerResource(resource.name, resource.uri, metadata, (uri) => read(uri, {}));
+    }
+  }
+
+  // Replace the SDK's unpaginated resources/list (the SDK keeps its read and templates handlers)
+  server.server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+    const offset = decodeCursor(request.params?.cursor);
+    const visible = await listVisibleResources(resources, getRequestSession());
+    const nextOffset = offset + RESOURCE_PAGE_SIZE;
+
+    return {
+      resources: visible.slice(offset, nextOffset),
+      ...(nextOffset < visible.length && { nextCursor: encodeCursor(nextOffset) }),
+    };
+  });
+
+  registerSubscriptionHandlers(server, resources, templates);
+}
+
+/**
+ * Handle resources/subscribe and resources/unsubscribe
+ *
+ * Only SSE connections can subscribe: each has a server of its own with an open stream to
+ * deliver updates on. The streamable HTTP server is stateless and shared by every request,
+ * so subscriptions there would pile up across callers and never be delivered.
+ */
+function registerSubscriptionHandlers(
+  server: McpServer,
+  resources: readonly ResourceDefinition[],
+  templates: Map<ResourceDefinition, UriTemplate>
+): void {
+  // Subscribed URI -> ids of the subscribing users (null for anonymous subscribers)
+  const subscriptions = new Map<string, Set<string | null>>();
+  let stopListening: (() => void) | null = null;
+
+  const listen = () =>
+    onResourceUpdated((event) => {
+      // The connection is gone - drop the listener instead of sending into a closed transport
+      if (!server.isConnected()) {
+        stopListening?.();
+        stopListening = null;
+        return;
+      }
+
+      const subscribers = subscriptions.get(event.uri);
+      if (!subscribers) return;
+      if (event.userId && !subscribers.has(event.userId)) return;
+
+      server.server.sendResourceUpdated({ uri: event.uri }).catch((error: Error) => {
+        logger.warn(`[MCP] Failed to send resource update: ${event.uri}`, { error: error.message });
+      });
+    });
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    if (getMcpRequestContext()?.transport !== "sse") {
+      throw new McpError(ErrorCode.InvalidRequest, "Resource subscriptions are only available over SSE (/sse)");
+    }
+
+    const session = getRequestSession();
+    const match = matchResource(resources, templates, uri);
+    if (!match) {
+      throw new McpError(ErrorCode.InvalidParams, `Resource ${uri} not found`);
+    }
+    assertAccess(match.resource, uri, match.variables, session);
+
+    const subscribers = subscriptions.get(uri) ?? new Set();
+    subscribers.add(session?.userId ?? null);
+    subscriptions.set(uri, subscribers);
+    stopListening ??= listen();
+
+    logger.debug(`[MCP] Subscribed to resource: ${uri}`, { userId: session?.userId });
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const subscribers = subscriptions.get(uri);
+    subscribers?.delete(getRequestSession()?.userId ?? null);
+    if (subscribers?.size === 0) subscriptions.delete(uri);
+
+    if (subscriptions.size === 0) {
+      stopListening?.();
+      stopListening = null;
+    }
+    return {};
+  });
+}
@@ -0,0 +1,44 @@
+/**
+ * Current Subscription Resource
+ *
+ * The signed-in user's active subscription (null when they have none), including one whose
+ * payment failed while it is in its grace period.
+ */
+
+import { createJsonContent, defineResource } from "@/lib/mcp/resource-registry";
+import { publishResourceUpdated } from "@/lib/mcp/resource-notifications";
+import { getSubscriptionGrace, getUserSubscription } from "@/lib/utils/subscription-helpers";
+
+export const CURRENT_SUBSCRIPTION_URI = "app://subscription/current";
+
+export const currentSubscriptionResource = defineResource({
+  name: "current_subscription",
+  title: "Current Subscription",
+  description: "Plan, status and billing period of the signed-in user's subscription",
+  uri: CURRENT_SUBSCRIPTION_URI,
+  mimeType: "application/json",
+  read: async (_variables, { session }) => {
+    const subscription = await getUserSubscription(session.userId);
+
+    return createJsonContent({
+      subscription: subscription && {
+        plan: subscription.plan,
+        status: subscription.status,
+        periodStart: subscription.periodStart,
+        periodEnd: subscription.periodEnd,
+        trialEnd: subscription.trialEnd,
+        cancelAtPeriodEnd: subscription.cancelAtPeriodEnd,
+        // Set while a failed payment is in its grace period
+        graceEndsAt: getSubscriptionGrace(subscription)?.endsAt ?? null,
+      },
+    });
+  },
+});
+
+/**
+ * Notify the user's subscribers after their subscription rows change
+ * The URI is shared by every user, so the event is scoped to the owner
+ */
+export function notifySubscriptionUpdated(userId: string): Promise<void> {
+  return publishResourceUpdated({ uri: CURRENT_SUBSCRIPTION_URI, userId });
+}
@@ -0,0 +1,12 @@
+/**
+ * Resource Definitions
+ *
+ * Every user-data resource exposed by the MCP server.
+ * Widget templates are derived from the tools and AUTH_WIDGETS (see widgetResources in lib/mcp/registry.ts).
+ * TEMPLATE: Import your resource definitions and add them to this list
+ */
+
+import { currentSubscriptionResource } from "./current-subscription";
+import { userProfileResource } from "./user-profile";
+
+export const resources = [userProfileResource, currentSubscriptionResource] as const;
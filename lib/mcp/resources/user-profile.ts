@@ -0,0 +1,49 @@
+/**
+ * User Profile Resource
+ *
+ * The signed-in user's profile, addressed by user id.
+ * TEMPLATE: Copy this file as a starting point for your own user-scoped resources
+ */
+
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { user } from "@/lib/db/schema";
+import { createJsonContent, defineResource } from "@/lib/mcp/resource-registry";
+import { publishResourceUpdated } from "@/lib/mcp/resource-notifications";
+
+export const getUserProfileUri = (userId: string) => `app://user/${userId}/profile`;
+
+export const userProfileResource = defineResource({
+  name: "user_profile",
+  title: "User Profile",
+  description: "Name, email and avatar of the signed-in user",
+  uri: "app://user/{id}/profile",
+  mimeType: "application/json",
+  // Users can only read their own profile
+  authorize: ({ id }, { session }) => id === session.userId,
+  list: async ({ session }) => [
+    { uri: getUserProfileUri(session.userId), name: "user_profile", title: "Your profile" },
+  ],
+  read: async ({ id }) => {
+    const [profile] = await db
+      .select({
+        id: user.id,
+        name: user.name,
+        email: user.email,
+        image: user.image,
+        createdAt: user.createdAt,
+      })
+      .from(user)
+      .where(eq(user.id, id))
+      .limit(1);
+
+    return profile ? createJsonContent(profile) : null;
+  },
+});
+
+/**
+ * Notify subscribers after the user row changes
+ */
+export function notifyUserProfileUpdated(userId: string): Promise<void> {
+  return publishResourceUpdated({ uri: getUserProfileUri(userId), userId });
+}
@@ -0,0 +1,50 @@
+/**
+ * MCP Server Setup
+ *
+ * Registers every tool, prompt and resource on a server instance and traces its requests.
+ * The route builds its handler once at module load, so this runs once for the shared
+ * streamable HTTP server and once per SSE connection - never per request.
+ * Per-request state comes from lib/mcp/request-context.ts.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerTools, widgetResources } from "@/lib/mcp/registry";
+import { tools } from "@/lib/mcp/tools";
+import { registerPrompts } from "@/lib/mcp/prompt-registry";
+import { prompts } from "@/lib/mcp/prompts";
+import { registerResources } from "@/lib/mcp/resource-registry";
+import { resources } from "@/lib/mcp/resources";
+import { getMcpRequestContext, pinMcpRequestContext } from "@/lib/mcp/request-context";
+import { traceMcpServer } from "@/lib/mcp/tracing";
+
+/**
+ * Server options passed to createMcpHandler
+ */
+export const MCP_SERVER_OPTIONS = {
+  capabilities: {
+    tools: {},
+    resources: {},
+    prompts: {},
+  },
+};
+
+/**
+ * Register everything the server exposes
+ */
+export function initializeMcpServer(server: McpServer): void {
+  traceMcpServer(server, {
+    redact: Object.fromEntries(tools.map((tool) => [tool.name, tool.redact])),
+  });
+
+  // An SSE server belongs to the connection that created it - keep that connection's session
+  // (pinned after tracing so the context also wraps the traced message handling)
+  if (getMcpRequestContext()?.transport === "sse") {
+    pinMcpRequestContext(server);
+  }
+
+  // Auth policies are enforced per call against the request's session
+  registerTools(server, tools);
+  registerPrompts(server, prompts);
+  // Widget templates plus user data, authorized against the request's session
+  registerResources(server, [...widgetResources(tools), ...resources]);
+}
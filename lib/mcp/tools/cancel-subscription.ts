@@ -0,0 +1,70 @@
+/**
+ * Cancel Subscription Tool
+ *
+ * Creates a Stripe billing portal page where the user confirms cancelling their subscription.
+ * Nothing changes until they confirm; the subscription then runs to the end of the paid period.
+ */
+
+import { z } from "zod";
+import { defineTool } from "@/lib/mcp/registry";
+import { getWidgetUri } from "@/lib/mcp/widgets";
+import { getPlan } from "@/lib/config/plans";
+import {
+  BILLING_DISABLED_MESSAGE,
+  createCancellationUrl,
+  getBillingErrorMessage,
+  isBillingEnabled,
+} from "@/lib/services/billing-service";
+import { createErrorResponse, createSuccessResponse } from "@/lib/utils/mcp-response-helpers";
+import { getUserSubscription } from "@/lib/utils/subscription-helpers";
+
+export const cancelSubscriptionTool = defineTool({
+  name: "cancel_subscription",
+  title: "Cancel Subscription",
+  description:
+    "Cancel the user's subscription. Returns a Stripe link where they confirm the cancellation; access continues until the end of the paid period.",
+  inputSchema: {},
+  outputSchema: {
+    action: z.literal("cancel"),
+    url: z.string(),
+    plan: z.string().nullable(),
+    planDisplayName: z.string().nullable(),
+  },
+  widget: "billing-link",
+  annotations: { readOnlyHint: false, destructiveHint: true, openWorldHint: true },
+  auth: { scopes: ["subscription:manage"], subscription: false },
+  cost: 0,
+  handler: async (_args, { session, logger }) => {
+    if (!isBillingEnabled()) {
+      return createErrorResponse(BILLING_DISABLED_MESSAGE);
+    }
+
+    const subscription = await getUserSubscription(session.userId);
+    if (!subscription) {
+      return createErrorResponse("You don't have a subscription to cancel.");
+    }
+    if (subscription.cancelAtPeriodEnd) {
+      return createErrorResponse(
+        `Your subscription is already set to end on ${subscription.periodEnd?.toISOString().slice(0, 10) ?? "the end of the billing period"}.`
+      );
+    }
+
+    let url: string;
+    try {
+      url = await createCancellationUrl(session.userId);
+    } catch (error) {
+      logger.error("[Billing] Failed to create cancellation", { error });
+      return createErrorResponse(getBillingErrorMessage(error));
+    }
+
+    const planDisplayName = getPlan(subscription.plan)?.displayName ?? null;
+    return createSuccessResponse(
+      `Open the billing portal to confirm cancelling your subscription: ${url}`,
+      { action: "cancel" as const, url, plan: subscription.plan, planDisplayName },
+      {
+        "openai/outputTemplate": getWidgetUri("billing-link"),
+        "openai/widgetAccessible": true,
+      }
+    );
+  },
+});
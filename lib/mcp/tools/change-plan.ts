@@ -0,0 +1,74 @@
+/**
+ * Change Plan Tool
+ *
+ * Creates a Stripe billing portal page where a subscriber confirms switching to another plan.
+ */
+
+import { z } from "zod";
+import { defineTool } from "@/lib/mcp/registry";
+import { getWidgetUri } from "@/lib/mcp/widgets";
+import { PLAN_NAMES, PLANS } from "@/lib/config/plans";
+import type { PlanName } from "@/lib/config/plans";
+import {
+  BILLING_DISABLED_MESSAGE,
+  createSubscriptionUrl,
+  getBillingErrorMessage,
+  getPurchasablePlans,
+  isBillingEnabled,
+} from "@/lib/services/billing-service";
+import { createErrorResponse, createSuccessResponse } from "@/lib/utils/mcp-response-helpers";
+import { getUserSubscription } from "@/lib/utils/subscription-helpers";
+
+export const changePlanTool = defineTool({
+  name: "change_plan",
+  title: "Change Plan",
+  description:
+    "Switch the user's subscription to another plan. Returns a Stripe link where they review the price difference and confirm. Use start_checkout instead if they don't have a subscription.",
+  inputSchema: {
+    plan: z.enum(PLAN_NAMES as [PlanName, ...PlanName[]]).describe("Plan to switch to"),
+  },
+  outputSchema: {
+    action: z.literal("change_plan"),
+    url: z.string(),
+    plan: z.string(),
+    planDisplayName: z.string(),
+  },
+  widget: "billing-link",
+  annotations: { readOnlyHint: false, destructiveHint: false, openWorldHint: true },
+  auth: { scopes: ["subscription:manage"], subscription: false },
+  cost: 0,
+  handler: async ({ plan }, { session, logger }) => {
+    if (!isBillingEnabled()) {
+      return createErrorResponse(BILLING_DISABLED_MESSAGE);
+    }
+    if (!getPurchasablePlans().includes(plan)) {
+      return createErrorResponse(`The ${PLANS[plan].displayName} plan isn't available.`);
+    }
+
+    const subscription = await getUserSubscription(session.userId);
+    if (!subscription) {
+      return createErrorResponse("You don't have a subscription. Use start_checkout to subscribe to a plan.");
+    }
+    if (subscription.plan === plan) {
+      return createErrorResponse(`You're already on the ${PLANS[plan].displayName} plan.`);
+    }
+
+    let url: string;
+    try {
+      url = await createSubscriptionUrl(session.userId, plan);
+    } catch (error) {
+      logger.error("[Billing] Failed to create plan change", { plan, error });
+      return createErrorResponse(getBillingErrorMessage(error));
+    }
+
+    const planDisplayName = PLANS[plan].displayName;
+    return createSuccessResponse(
+      `Open the billing portal to confirm switching to the ${planDisplayName} plan: ${url}`,
+      { action: "change_plan" as const, url, plan, planDisplayName },
+      {
+        "openai/outputTemplate": getWidgetUri("billing-link"),
+        "openai/widgetAccessible": true,
+      }
+    );
+  },
+});
@@ -0,0 +1,88 @@
+/**
+ * Get Subscription Tool
+ *
+ * Shows the user's plan, billing status, add-ons and entitlements, and the plans they can switch to.
+ */
+
+import { z } from "zod";
+import { defineTool } from "@/lib/mcp/registry";
+import { getWidgetUri } from "@/lib/mcp/widgets";
+import { ADD_ONS, ENTITLEMENTS, PLANS } from "@/lib/config/plans";
+import {
+  BILLING_DISABLED_MESSAGE,
+  getPurchasablePlans,
+  isBillingEnabled,
+} from "@/lib/services/billing-service";
+import { getUserEntitlements } from "@/lib/utils/entitlements";
+import { createErrorResponse, createSuccessResponse } from "@/lib/utils/mcp-response-helpers";
+import { getSubscriptionGrace, getUserSubscription } from "@/lib/utils/subscription-helpers";
+
+const namedItem = z.object({ name: z.string(), displayName: z.string() });
+
+export const getSubscriptionTool = defineTool({
+  name: "get_subscription",
+  title: "View Subscription",
+  description:
+    "Show the user's subscription plan, billing status, renewal date, add-ons and included features, and the plans available to switch to.",
+  inputSchema: {},
+  outputSchema: {
+    plan: z.string().nullable(),
+    planDisplayName: z.string().nullable(),
+    status: z.string().nullable(),
+    trialEnd: z.string().nullable(),
+    periodEnd: z.string().nullable(),
+    cancelAtPeriodEnd: z.boolean(),
+    graceEndsAt: z.string().nullable(),
+    addOns: z.array(namedItem),
+    entitlements: z.array(namedItem),
+    availablePlans: z.array(namedItem.extend({ current: z.boolean() })),
+  },
+  widget: "subscription",
+  annotations: { readOnlyHint: true },
+  auth: { scopes: ["subscription:manage"], subscription: false },
+  // Managing billing must keep working once the quota is used up
+  cost: 0,
+  handler: async (_args, { session }) => {
+    if (!isBillingEnabled()) {
+      return createErrorResponse(BILLING_DISABLED_MESSAGE);
+    }
+
+    const [subscription, { plan, addOns, entitlements }] = await Promise.all([
+      getUserSubscription(session.userId),
+      getUserEntitlements(session.userId),
+    ]);
+    const planDisplayName = plan ? PLANS[plan].displayName : null;
+    const grace = subscription && getSubscriptionGrace(subscription);
+
+    let summary = planDisplayName
+      ? `You're on the ${planDisplayName} plan (${subscription?.status}).`
+      : "You don't have a subscription.";
+    if (grace) {
+      summary += ` The last payment failed: update the payment method in the billing portal before ${grace.endsAt.toISOString()} to keep access.`;
+    }
+
+    return createSuccessResponse(
+      summary,
+      {
+        plan,
+        planDisplayName,
+        status: subscription?.status ?? null,
+        trialEnd: subscription?.trialEnd?.toISOString() ?? null,
+        periodEnd: subscription?.periodEnd?.toISOString() ?? null,
+        cancelAtPeriodEnd: subscription?.cancelAtPeriodEnd ?? false,
+        graceEndsAt: grace?.endsAt.toISOString() ?? null,
+        addOns: addOns.map((name) => ({ name, displayName: ADD_ONS[name].displayName })),
+        entitlements: [...entitlements].map((name) => ({ name, displayName: ENTITLEMENTS[name] })),
+        availablePlans: getPurchasablePlans().map((name) => ({
+          name,
+          displayName: PLANS[name].displayName,
+          current: name === plan,
+        })),
+      },
+      {
+        "openai/outputTemplate": getWidgetUri("subscription"),
+        "openai/widgetAccessible": true,
+      }
+    );
+  },
+});
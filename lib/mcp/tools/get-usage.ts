@@ -0,0 +1,60 @@
+/**
+ * Get Usage Tool
+ *
+ * Shows the user's metered usage for the current month against their plan's quota.
+ */
+
+import { z } from "zod";
+import { defineTool } from "@/lib/mcp/registry";
+import { getWidgetUri } from "@/lib/mcp/widgets";
+import { getUsageSummary } from "@/lib/services/usage-service";
+import { createSuccessResponse } from "@/lib/utils/mcp-response-helpers";
+import { formatUsageQuota } from "@/lib/utils/plan-limits";
+
+export const getUsageTool = defineTool({
+  name: "get_usage",
+  title: "Check Usage",
+  description:
+    "Show how much of this month's usage quota the user has consumed, broken down by tool.",
+  inputSchema: {},
+  outputSchema: {
+    plan: z.string().nullable(),
+    used: z.number(),
+    quota: z.number().nullable(),
+    periodStart: z.string(),
+    periodEnd: z.string(),
+    byTool: z.array(
+      z.object({
+        tool: z.string(),
+        units: z.number(),
+        calls: z.number(),
+      })
+    ),
+  },
+  widget: "usage",
+  annotations: { readOnlyHint: true },
+  // Users without a plan still have a free allowance to check
+  auth: { subscription: false },
+  // Checking usage must keep working once the quota is used up
+  cost: 0,
+  handler: async (_args, { session }) => {
+    const summary = await getUsageSummary(session.userId);
+
+    return createSuccessResponse(
+      `Used ${summary.used.toLocaleString("en-US")} of ${formatUsageQuota(summary.quota)} units this month.`,
+      {
+        plan: summary.plan,
+        used: summary.used,
+        // JSON has no Infinity
+        quota: Number.isFinite(summary.quota) ? summary.quota : null,
+        periodStart: summary.period.start.toISOString(),
+        periodEnd: summary.period.end.toISOString(),
+        byTool: summary.byTool,
+      },
+      {
+        "openai/outputTemplate": getWidgetUri("usage"),
+        "openai/widgetAccessible": true,
+      }
+    );
+  },
+});
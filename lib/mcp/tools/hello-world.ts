@@ -0,0 +1,44 @@
+/**
+ * Hello World Tool
+ *
+ * A simple example to start with.
+ * TEMPLATE: Copy this file as a starting point for your own tools
+ */
+
+import { z } from "zod";
+import { defineTool } from "@/lib/mcp/registry";
+import { getWidgetUri } from "@/lib/mcp/widgets";
+import { createSuccessResponse } from "@/lib/utils/mcp-response-helpers";
+
+export const helloWorldTool = defineTool({
+  name: "hello_world",
+  title: "Say Hello",
+  description: "Say hello to the world. A simple example to start with.",
+  inputSchema: {
+    name: z.string().optional().describe("Your name"),
+  },
+  outputSchema: {
+    greeting: z.string(),
+    name: z.string(),
+    timestamp: z.string(),
+  },
+  widget: "hello-world",
+  // Mark as read-only (doesn't modify data)
+  annotations: { readOnlyHint: true },
+  // Any signed-in user can say hello, no subscription needed
+  auth: { subscription: false },
+  handler: async ({ name = "World" }) => {
+    return createSuccessResponse(
+      `Hello, ${name}!`,
+      {
+        greeting: `Hello, ${name}!`,
+        name,
+        timestamp: new Date().toISOString(),
+      },
+      {
+        "openai/outputTemplate": getWidgetUri("hello-world"),
+        "openai/widgetAccessible": true,
+      }
+    );
+  },
+});
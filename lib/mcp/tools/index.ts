@@ -0,0 +1,28 @@
+/**
+ * Tool Definitions
+ *
+ * Every tool exposed by the MCP server.
+ * TEMPLATE: Import your tool definitions and add them to this list
+ */
+
+import type { InferAppType } from "@/lib/mcp/registry";
+import { helloWorldTool } from "./hello-world";
+import { getUsageTool } from "./get-usage";
+import { getSubscriptionTool } from "./get-subscription";
+import { startCheckoutTool } from "./start-checkout";
+import { changePlanTool } from "./change-plan";
+import { cancelSubscriptionTool } from "./cancel-subscription";
+import { openBillingPortalTool } from "./open-billing-portal";
+
+export const tools = [
+  helloWorldTool,
+  getUsageTool,
+  getSubscriptionTool,
+  startCheckoutTool,
+  changePlanTool,
+  cancelSubscriptionTool,
+  openBillingPortalTool,
+] as const;
+
+// Export type for frontend type inference
+export type AppType = InferAppType<typeof tools>;
@@ -0,0 +1,56 @@
+/**
+ * Open Billing Portal Tool
+ *
+ * Creates a Stripe billing portal session for invoices, payment methods and add-ons.
+ */
+
+import { z } from "zod";
+import { defineTool } from "@/lib/mcp/registry";
+import { getWidgetUri } from "@/lib/mcp/widgets";
+import {
+  BILLING_DISABLED_MESSAGE,
+  createBillingPortalUrl,
+  getBillingErrorMessage,
+  isBillingEnabled,
+} from "@/lib/services/billing-service";
+import { createErrorResponse, createSuccessResponse } from "@/lib/utils/mcp-response-helpers";
+
+export const openBillingPortalTool = defineTool({
+  name: "open_billing_portal",
+  title: "Open Billing Portal",
+  description:
+    "Open the Stripe billing portal, where the user can view invoices, update their payment method and manage add-ons.",
+  inputSchema: {},
+  outputSchema: {
+    action: z.literal("billing_portal"),
+    url: z.string(),
+    plan: z.null(),
+    planDisplayName: z.null(),
+  },
+  widget: "billing-link",
+  annotations: { readOnlyHint: true, openWorldHint: true },
+  auth: { scopes: ["subscription:manage"], subscription: false },
+  cost: 0,
+  handler: async (_args, { session, logger }) => {
+    if (!isBillingEnabled()) {
+      return createErrorResponse(BILLING_DISABLED_MESSAGE);
+    }
+
+    let url: string;
+    try {
+      url = await createBillingPortalUrl(session.userId);
+    } catch (error) {
+      logger.error("[Billing] Failed to create billing portal session", { error });
+      return createErrorResponse(getBillingErrorMessage(error));
+    }
+
+    return createSuccessResponse(
+      `Open the billing portal: ${url}`,
+      { action: "billing_portal" as const, url, plan: null, planDisplayName: null },
+      {
+        "openai/outputTemplate": getWidgetUri("billing-link"),
+        "openai/widgetAccessible": true,
+      }
+    );
+  },
+});
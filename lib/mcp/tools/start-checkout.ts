@@ -0,0 +1,80 @@
+/**
+ * Start Checkout Tool
+ *
+ * Creates a Stripe Checkout page for a user without a subscription to subscribe to a plan.
+ */
+
+import { z } from "zod";
+import { defineTool } from "@/lib/mcp/registry";
+import { getWidgetUri } from "@/lib/mcp/widgets";
+import { PLAN_NAMES, PLANS, getPlan } from "@/lib/config/plans";
+import type { PlanName } from "@/lib/config/plans";
+import {
+  BILLING_DISABLED_MESSAGE,
+  createSubscriptionUrl,
+  getBillingErrorMessage,
+  getPurchasablePlans,
+  isBillingEnabled,
+} from "@/lib/services/billing-service";
+import { createErrorResponse, createSuccessResponse } from "@/lib/utils/mcp-response-helpers";
+import { getLapsedSubscription, getUserSubscription } from "@/lib/utils/subscription-helpers";
+
+export const startCheckoutTool = defineTool({
+  name: "start_checkout",
+  title: "Start Checkout",
+  description:
+    "Subscribe the user to a plan. Returns a Stripe Checkout link for them to open and pay. Use change_plan instead if they already have a subscription.",
+  inputSchema: {
+    plan: z.enum(PLAN_NAMES as [PlanName, ...PlanName[]]).describe("Plan to subscribe to"),
+  },
+  outputSchema: {
+    action: z.literal("checkout"),
+    url: z.string(),
+    plan: z.string(),
+    planDisplayName: z.string(),
+  },
+  widget: "billing-link",
+  annotations: { readOnlyHint: false, destructiveHint: false, openWorldHint: true },
+  auth: { scopes: ["subscription:manage"], subscription: false },
+  cost: 0,
+  handler: async ({ plan }, { session, logger }) => {
+    if (!isBillingEnabled()) {
+      return createErrorResponse(BILLING_DISABLED_MESSAGE);
+    }
+    if (!getPurchasablePlans().includes(plan)) {
+      return createErrorResponse(`The ${PLANS[plan].displayName} plan isn't available.`);
+    }
+
+    const subscription = await getUserSubscription(session.userId);
+    if (subscription) {
+      return createErrorResponse(
+        `You're already subscribed to the ${getPlan(subscription.plan)?.displayName ?? subscription.plan} plan. Use change_plan to switch plans.`
+      );
+    }
+    // Subscribing again would leave the unpaid subscription open
+    const lapsed = await getLapsedSubscription(session.userId);
+    if (lapsed) {
+      return createErrorResponse(
+        `The last payment for your ${getPlan(lapsed.plan)?.displayName ?? lapsed.plan} plan failed. Use open_billing_portal to update your payment method.`
+      );
+    }
+
+    let url: string;
+    try {
+      url = await createSubscriptionUrl(session.userId, plan);
+    } catch (error) {
+      logger.error("[Billing] Failed to create checkout", { plan, error });
+      return createErrorResponse(getBillingErrorMessage(error));
+    }
+
+    const planDisplayName = PLANS[plan].displayName;
+    return createSuccessResponse(
+      `Open Stripe Checkout to subscribe to the ${planDisplayName} plan: ${url}`,
+      { action: "checkout" as const, url, plan, planDisplayName },
+      {
+        "openai/outputTemplate": getWidgetUri("billing-link"),
+        "openai/widgetAccessible": true,
+      }
+    );
+  },
+});
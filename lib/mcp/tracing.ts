@@ -0,0 +1,274 @@
+/**
+ * MCP Request Tracing
+ *
+ * Records one structured trace per JSON-RPC request handled by the MCP server:
+ * method, tool name, duration, status, a hash of the user id and the error class.
+ * Tool arguments are included only after redaction (DEFAULT_REDACTED_FIELDS plus each
+ * tool's `redact` rules); tool outputs are never recorded.
+ *
+ * Each request also gets an OpenTelemetry span (`mcp <method>`), the parent of the
+ * tool handler, auth, database and Redis spans it triggers.
+ *
+ * Configuration (environment):
+ * - MCP_TRACE_SAMPLE_RATE  Fraction of successful requests to record, 0-1 (default: 1). Errors are always recorded.
+ * - MCP_TRACE_SALT         Salt for the user id hash (default: BETTER_AUTH_SECRET)
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createHash } from "node:crypto";
+import { context, SpanStatusCode, trace as otelTrace } from "@opentelemetry/api";
+import type { Span } from "@opentelemetry/api";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "@/lib/services/logger-service";
+import { tracer } from "@/lib/services/telemetry";
+import { getRequestId, getRequestSession } from "@/lib/mcp/request-context";
+
+/**
+ * Argument fields redacted for every tool (matched case-insensitively at any depth)
+ */
+export const DEFAULT_REDACTED_FIELDS = [
+  "password",
+  "token",
+  "secret",
+  "apiKey",
+  "authorization",
+  "email",
+  "phone",
+  "cardNumber",
+];
+
+const REDACTED = "[REDACTED]";
+const MAX_STRING_LENGTH = 100;
+
+export type TraceStatus = "ok" | "tool_error" | "auth_challenge" | "error";
+
+export interface McpTrace {
+  /** JSON-RPC method (e.g. "tools/call") */
+  method: string;
+
+  /** Tool, prompt or resource targeted by the request */
+  target?: string;
+
+  /** Correlation id from middleware.ts */
+  requestId?: string;
+
+  durationMs: number;
+
+  /**
+   * - ok: successful result
+   * - tool_error: the tool returned `isError`
+   * - auth_challenge: the tool asked the client to (re)authenticate
+   * - error: JSON-RPC error response
+   */
+  status: TraceStatus;
+
+  /** Truncated SHA-256 of the user id - correlates requests without logging the id */
+  userIdHash?: string;
+
+  /** Exception class or JSON-RPC error name */
+  errorClass?: string;
+
+  /** Tool arguments after redaction */
+  args?: unknown;
+}
+
+export interface TracingOptions {
+  /** Per-tool argument fields to redact, in addition to DEFAULT_REDACTED_FIELDS (dot paths allowed) */
+  redact?: Record<string, readonly string[] | undefined>;
+}
+
+interface ActiveTrace {
+  id: string | number;
+  method: string;
+  target?: string;
+  requestId?: string;
+  startedAt: number;
+  span: Span;
+  args?: unknown;
+  errorClass?: string;
+}
+
+const activeTrace = new AsyncLocalStorage<ActiveTrace>();
+
+function getSampleRate(): number {
+  const rate = Number(process.env.MCP_TRACE_SAMPLE_RATE ?? 1);
+  return Number.isFinite(rate) ? Math.min(Math.max(rate, 0), 1) : 1;
+}
+
+/**
+ * Hash a user id so traces can be correlated without storing it
+ */
+export function hashUserId(userId: string): string {
+  const salt = process.env.MCP_TRACE_SALT || process.env.BETTER_AUTH_SECRET || "";
+  return createHash("sha256").update(`${salt}:${userId}`).digest("hex").slice(0, 16);
+}
+
+/**
+ * Copy of `value` with redacted fields masked and long strings truncated
+ *
+ * @param rules - Field names or dot paths (e.g. "address.street") to mask
+ */
+export function redactFields(value: unknown, rules: readonly string[], path: string[] = []): unknown {
+  if (typeof value === "string") {
+    return value.length > MAX_STRING_LENGTH ? `${value.slice(0, MAX_STRING_LENGTH)}…` : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactFields(item, rules, path));
+  }
+  if (!value || typeof value !== "object") return value;
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, fieldValue]) => {
+      const fieldPath = [...path, key].join(".");
+      const redacted = rules.some(
+        (rule) => rule.toLowerCase() === key.toLowerCase() || rule === fieldPath
+      );
+      return [key, redacted ? REDACTED : redactFields(fieldValue, rules, [...path, key])];
+    })
+  );
+}
+
+/**
+ * Attach an exception to the trace of the request being handled
+ * Called by handlers before rethrowing, since the SDK turns exceptions into plain error results
+ */
+export function recordTraceError(error: unknown): void {
+  const trace = activeTrace.getStore();
+  if (trace) {
+    trace.errorClass = error instanceof Error ? error.constructor.name : typeof error;
+  }
+}
+
+/**
+ * Name of a JSON-RPC error code (e.g. "InvalidParams")
+ */
+function errorCodeName(code: number): string {
+  return (ErrorCode as Record<number, string>)[code] ?? `JsonRpcError(${code})`;
+}
+
+/**
+ * Classify a response and work out its error class
+ */
+function classifyResponse(message: JSONRPCMessage): Pick<McpTrace, "status" | "errorClass"> {
+  if ("error" in message) {
+    return { status: "error", errorClass: errorCodeName(message.error.code) };
+  }
+  if (!("result" in message) || !message.result.isError) {
+    return { status: "ok" };
+  }
+
+  const meta = message.result._meta as Record<string, unknown> | undefined;
+  if (meta?.["mcp/www_authenticate"]) {
+    const structured = message.result.structuredContent as { error?: string } | undefined;
+    return { status: "auth_challenge", errorClass: structured?.error ?? "auth_required" };
+  }
+  return { status: "tool_error" };
+}
+
+/**
+ * Extract the targeted tool, prompt or resource from request params
+ */
+function getTarget(method: string, params: Record<string, unknown> | undefined): string | undefined {
+  if (!params) return undefined;
+  if (method.startsWith("resources/")) {
+    return typeof params.uri === "string" ? params.uri : undefined;
+  }
+  return typeof params.name === "string" ? params.name : undefined;
+}
+
+/**
+ * Record a trace for every JSON-RPC request handled by the server
+ * Wraps the transport once the server connects, so it covers every method and transport
+ */
+export function traceMcpServer(server: McpServer, options: TracingOptions = {}): void {
+  const connect = server.connect.bind(server);
+
+  server.connect = async (transport) => {
+    await connect(transport);
+
+    const onmessage = transport.onmessage;
+    transport.onmessage = (message, extra) => {
+      if (!("method" in message) || !("id" in message)) {
+        return onmessage?.(message, extra);
+      }
+
+      const params = message.params as Record<string, unknown> | undefined;
+      const target = getTarget(message.method, params);
+      const requestId = getRequestId();
+      const span = tracer.startSpan(`mcp ${message.method}`, {
+        attributes: {
+          "rpc.system": "jsonrpc",
+          "rpc.method": message.method,
+          "rpc.jsonrpc.request_id": String(message.id),
+          ...(target && { "mcp.target": target }),
+          ...(requestId && { "mcp.request_id": requestId }),
+        },
+      });
+      const trace: ActiveTrace = {
+        id: message.id,
+        method: message.method,
+        target,
+        requestId,
+        startedAt: performance.now(),
+        span,
+      };
+
+      if (message.method === "tools/call" && params?.arguments) {
+        const toolRules = (target && options.redact?.[target]) || [];
+        trace.args = redactFields(params.arguments, [...DEFAULT_REDACTED_FIELDS, ...toolRules]);
+      }
+
+      // The SDK sends the response from within this async context, which is how send() finds the trace
+      const spanContext = otelTrace.setSpan(context.active(), span);
+      return activeTrace.run(trace, () =>
+        context.with(spanContext, () => onmessage?.(message, extra))
+      );
+    };
+
+    const send = transport.send.bind(transport);
+    transport.send = async (message, sendOptions) => {
+      const trace = activeTrace.getStore();
+      if (trace && "id" in message && !("method" in message) && message.id === trace.id) {
+        finishTrace(trace, message);
+      }
+      return send(message, sendOptions);
+    };
+  };
+}
+
+function finishTrace(trace: ActiveTrace, response: JSONRPCMessage): void {
+  const classified = classifyResponse(response);
+  const { status } = classified;
+  const errorClass = trace.errorClass ?? classified.errorClass;
+  const isSuccess = status === "ok";
+
+  trace.span.setAttribute("mcp.status", status);
+  if (errorClass) trace.span.setAttribute("mcp.error_class", errorClass);
+  if (status === "error") {
+    trace.span.setStatus({ code: SpanStatusCode.ERROR, message: errorClass });
+  }
+  trace.span.end();
+
+  if (isSuccess && Math.random() >= getSampleRate()) return;
+
+  const session = getRequestSession();
+  const record: McpTrace = {
+    method: trace.method,
+    ...(trace.target && { target: trace.target }),
+    ...(trace.requestId && { requestId: trace.requestId }),
+    durationMs: Math.round((performance.now() - trace.startedAt) * 100) / 100,
+    status,
+    ...(session && { userIdHash: hashUserId(session.userId) }),
+    ...(errorClass && { errorClass }),
+    ...(trace.args !== undefined && { args: trace.args }),
+  };
+
+  const label = `[MCP] ${record.method}${record.target ? ` ${record.target}` : ""}`;
+  if (isSuccess) {
+    logger.info(label, { ...record });
+  } else {
+    logger.warn(`${label} failed`, { ...record });
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Widget URI & Route Resolver
+ *
+ * Single source of truth for how a widget name maps to:
+ * - its template URI  (ui://widget/<name>.html) - outputTemplate and resources/list
+ * - its page route    (/widgets/<name>)         - app/widgets/<name>/page.tsx
+ * - its iframe URL    (<baseURL>/widgets/<name>)
+ *
+ * Widget names are the kebab-case directory names under app/widgets/.
+ */
+
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import { baseURL } from "@/baseUrl";
+
+const WIDGET_URI_PREFIX = "ui://widget/";
+const WIDGET_URI_SUFFIX = ".html";
+const WIDGET_ROUTE_PREFIX = "/widgets/";
+
+/**
+ * Widgets shown by the auth responses in lib/utils/auth-responses.ts instead of a tool
+ * Served as templates alongside the tool widgets, so every tool can fall back to them
+ */
+export const AUTH_WIDGETS = [
+  {
+    name: "login",
+    title: "Sign in",
+    widget: "login",
+    description: "Asks the user to sign in before using a tool",
+  },
+  {
+    name: "subscription_required",
+    title: "Subscription required",
+    widget: "subscription-required",
+    description: "Compares plans and lets the user subscribe or upgrade to use a tool",
+  },
+  {
+    name: "security_required",
+    title: "Security required",
+    widget: "security-required",
+    description: "Asks the user to set up a passkey before using a tool",
+  },
+] as const;
+
+/**
+ * Template URI advertised as `openai/outputTemplate` and registered as a resource
+ */
+export function getWidgetUri(widget: string): `ui://widget/${string}.html` {
+  return `${WIDGET_URI_PREFIX}${widget}${WIDGET_URI_SUFFIX}`;
+}
+
+/**
+ * Next.js route serving the widget page
+ */
+export function getWidgetRoute(widget: string): string {
+  return `${WIDGET_ROUTE_PREFIX}${widget}`;
+}
+
+/**
+ * Absolute URL of the widget page, loaded in the ChatGPT iframe
+ */
+export function getWidgetUrl(widget: string): string {
+  return `${baseURL}${getWidgetRoute(widget)}`;
+}
+
+/**
+ * Resolve the widget name from a template URI
+ *
+ * @returns The widget name, or null when the URI is not a widget template
+ */
+export function parseWidgetUri(uri: string): string | null {
+  if (!uri.startsWith(WIDGET_URI_PREFIX) || !uri.endsWith(WIDGET_URI_SUFFIX)) {
+    return null;
+  }
+  return uri.slice(WIDGET_URI_PREFIX.length, -WIDGET_URI_SUFFIX.length) || null;
+}
+
+/**
+ * Check that every referenced widget has a page under app/widgets/
+ * Reads the source tree, so run it in development or before a build - not in deployed bundles
+ *
+ * @throws Error listing every missing page
+ */
+export function assertWidgetPagesExist(
+  widgets: readonly { name: string; widget?: string }[],
+  rootDir: string = process.cwd()
+): void {
+  const missing = widgets
+    .filter((entry): entry is { name: string; widget: string } => !!entry.widget)
+    .filter(({ widget }) => !existsSync(join(rootDir, "app/widgets", widget, "page.tsx")))
+    .map(({ name, widget }) => `${name} -> app/widgets/${widget}/page.tsx`);
+
+  if (missing.length > 0) {
+    throw new Error(
+      `[MCP] Missing widget pages (create them or fix the tool's \`widget\`):\n  ${missing.join("\n  ")}`
+    );
+  }
+}
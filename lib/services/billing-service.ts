@@ -0,0 +1,100 @@
+/**
+ * Billing Service
+ *
+ * Checkout, plan changes, cancellation and the billing portal through the Better Auth
+ * Stripe plugin (lib/auth/index.ts). Each function returns a Stripe-hosted URL for the
+ * user to open; the subscription rows only change once Stripe's webhook arrives.
+ */
+
+import { auth } from "@/lib/auth";
+import { withApiKeySession } from "@/lib/auth/api-key-session";
+import { baseURL } from "@/baseUrl";
+import { FEATURES } from "@/lib/config/features";
+import { PLAN_NAMES, getPlanPriceId } from "@/lib/config/plans";
+import type { PlanName } from "@/lib/config/plans";
+import { logger } from "./logger-service";
+import { stripeClient } from "./stripe-client";
+
+// Where Stripe sends the user back to after checkout or the billing portal
+const BILLING_RETURN_URL = `${baseURL}/`;
+
+export const BILLING_DISABLED_MESSAGE = "Subscriptions are not enabled on this server.";
+
+/**
+ * Whether subscriptions are enabled and Stripe is configured
+ */
+export function isBillingEnabled(): boolean {
+  return FEATURES.SUBSCRIPTIONS && !!stripeClient;
+}
+
+/**
+ * Plans with a configured Stripe price, in catalog order
+ */
+export function getPurchasablePlans(): PlanName[] {
+  return PLAN_NAMES.filter((name) => !!getPlanPriceId(name));
+}
+
+/**
+ * Stripe Checkout for users without a subscription, or a billing portal page
+ * confirming the switch for users with an active or trialing one
+ */
+export async function createSubscriptionUrl(userId: string, plan: PlanName): Promise<string> {
+  const result = await withApiKeySession(userId, (headers) =>
+    auth.api.upgradeSubscription({
+      body: {
+        plan,
+        successUrl: BILLING_RETURN_URL,
+        cancelUrl: BILLING_RETURN_URL,
+        returnUrl: BILLING_RETURN_URL,
+        disableRedirect: true,
+      },
+      headers,
+    })
+  );
+
+  if (!result.url) {
+    throw new Error("Stripe did not return a checkout URL");
+  }
+
+  logger.info("[Billing] Created subscription URL", { userId, plan });
+  return result.url;
+}
+
+/**
+ * Billing portal page confirming cancellation of the user's active subscription
+ */
+export async function createCancellationUrl(userId: string): Promise<string> {
+  const { url } = await withApiKeySession(userId, (headers) =>
+    auth.api.cancelSubscription({
+      body: { returnUrl: BILLING_RETURN_URL },
+      headers,
+    })
+  );
+
+  logger.info("[Billing] Created cancellation URL", { userId });
+  return url;
+}
+
+/**
+ * Billing portal session for invoices, payment methods and add-ons
+ */
+export async function createBillingPortalUrl(userId: string): Promise<string> {
+  const { url } = await withApiKeySession(userId, (headers) =>
+    auth.api.createBillingPortal({
+      body: { returnUrl: BILLING_RETURN_URL },
+      headers,
+    })
+  );
+
+  logger.info("[Billing] Created billing portal URL", { userId });
+  return url;
+}
+
+/**
+ * User-facing message for a failed billing call (plugin APIErrors carry Stripe's message)
+ */
+export function getBillingErrorMessage(error: unknown): string {
+  return error instanceof Error && error.message
+    ? error.message
+    : "Billing is temporarily unavailable. Please try again later.";
+}
@@ -0,0 +1,343 @@
+/**
+ * Email Service
+ *
+ * Sends the transactional emails in lib/services/email-templates.ts through a pluggable
+ * transport, and records each one in `email_delivery`.
+ *
+ * - Transports: Resend in production; a file transport (one .html/.txt/.json set per email)
+ *   for local development, and a memory transport for tests. Production without a Resend key
+ *   gets a disabled transport: its deliveries are recorded as skipped.
+ * - Deduplication: an email sent with a `dedupeKey` goes out once per key, so webhook
+ *   redeliveries and repeated reminder runs don't email the user twice. A failed send is
+ *   retried by the next call with the same key.
+ *
+ * Configuration (environment):
+ * - RESEND_API_KEY    Resend API key
+ * - EMAIL_FROM        Sender, e.g. "Axite MCP <hello@example.com>" (a domain verified in Resend)
+ * - EMAIL_TRANSPORT   resend | file | memory | disabled (default: resend when RESEND_API_KEY is
+ *                     set, file in development, disabled in production, memory otherwise)
+ * - EMAIL_FILE_DIR    Directory for the file transport (default: .emails)
+ */
+
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { and, eq } from "drizzle-orm";
+import { Resend } from "resend";
+import { db } from "@/lib/db";
+import { emailDelivery, user } from "@/lib/db/schema";
+import { logger } from "@/lib/services/logger-service";
+import { renderEmailTemplate } from "@/lib/services/email-templates";
+import type { EmailTemplate, EmailTemplateData } from "@/lib/services/email-templates";
+
+const DEFAULT_FROM = "Axite MCP <onboarding@resend.dev>";
+const DEFAULT_FILE_DIR = ".emails";
+
+export interface EmailMessage {
+  template: EmailTemplate;
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  /** Passed to transports that deduplicate requests (Resend keeps keys for 24 hours) */
+  idempotencyKey?: string;
+}
+
+export interface EmailTransport {
+  name: string;
+  /** Drops every email: deliveries are recorded as skipped, without taking their dedupe key */
+  disabled?: boolean;
+  /** @returns The transport's id for the sent email */
+  send(message: EmailMessage): Promise<{ id: string }>;
+}
+
+export interface MemoryEmailTransport extends EmailTransport {
+  /** Emails sent, oldest first */
+  sent: EmailMessage[];
+}
+
+/**
+ * What sending an email did
+ * - sent: the transport accepted the email
+ * - duplicate: an email with the same dedupe key was already sent (or is being sent)
+ * - no_recipient: the user doesn't exist or has no email address
+ * - skipped: email delivery is disabled; a later send with the same dedupe key still goes out
+ */
+export type EmailSendOutcome = "sent" | "duplicate" | "no_recipient" | "skipped";
+
+export interface EmailSendOptions {
+  /** Send the email once per key, e.g. `welcome:<subscription id>` */
+  dedupeKey?: string;
+  userId?: string;
+}
+
+export interface EmailService {
+  transport: EmailTransport;
+  /**
+   * Render a template and send it
+   *
+   * @throws When the transport fails - the delivery is recorded as failed
+   */
+  send<T extends EmailTemplate>(
+    to: string,
+    template: T,
+    data: EmailTemplateData<T>,
+    options?: EmailSendOptions
+  ): Promise<EmailSendOutcome>;
+  /**
+   * Send a template to a user, filling in their name
+   *
+   * @throws When the transport fails - the delivery is recorded as failed
+   */
+  sendToUser<T extends EmailTemplate>(
+    userId: string,
+    template: T,
+    data: Omit<EmailTemplateData<T>, "name">,
+    options?: Omit<EmailSendOptions, "userId">
+  ): Promise<EmailSendOutcome>;
+}
+
+/**
+ * Send through Resend
+ */
+export function createResendTransport(apiKey: string): EmailTransport {
+  const resend = new Resend(apiKey);
+
+  return {
+    name: "resend",
+    async send(message) {
+      const { data, error } = await resend.emails.send(
+        {
+          from: message.from,
+          to: message.to,
+          subject: message.subject,
+          html: message.html,
+          text: message.text,
+          tags: [{ name: "template", value: message.template }],
+        },
+        message.idempotencyKey ? { idempotencyKey: message.idempotencyKey } : undefined
+      );
+
+      if (error || !data) {
+        throw new Error(`Resend rejected the email: ${error?.message ?? "no response"}`);
+      }
+      return { id: data.id };
+    },
+  };
+}
+
+/**
+ * Write each email to a directory, to open in a browser during development
+ */
+export function createFileTransport(dir: string = DEFAULT_FILE_DIR): EmailTransport {
+  return {
+    name: "file",
+    async send(message) {
+      const id = `${new Date().toISOString().replace(/[:.]/g, "-")}-${message.template}`;
+      const base = path.join(dir, id);
+
+      await mkdir(dir, { recursive: true });
+      await writeFile(`${base}.html`, message.html);
+      await writeFile(`${base}.txt`, message.text);
+      await writeFile(
+        `${base}.json`,
+        JSON.stringify({ template: message.template, from: message.from, to: message.to, subject: message.subject }, null, 2)
+      );
+
+      logger.info("[Email] Written to file", { to: message.to, subject: message.subject, path: `${base}.html` });
+      return { id };
+    },
+  };
+}
+
+/**
+ * Keep emails in memory, for tests
+ */
+export function createMemoryTransport(): MemoryEmailTransport {
+  const sent: EmailMessage[] = [];
+
+  return {
+    name: "memory",
+    sent,
+    async send(message) {
+      sent.push(message);
+      return { id: `memory-${sent.length}` };
+    },
+  };
+}
+
+/**
+ * Send nothing, for production deployments without a Resend key
+ */
+export function createDisabledTransport(): EmailTransport {
+  return {
+    name: "disabled",
+    disabled: true,
+    async send() {
+      throw new Error("Email delivery is disabled");
+    },
+  };
+}
+
+/**
+ * Transport configured by the environment
+ */
+export function getDefaultEmailTransport(): EmailTransport {
+  const transport =
+    process.env.EMAIL_TRANSPORT ||
+    (process.env.RESEND_API_KEY
+      ? "resend"
+      : process.env.NODE_ENV === "development"
+        ? "file"
+        : process.env.NODE_ENV === "production"
+          ? "disabled"
+          : "memory");
+
+  if (transport === "resend") {
+    if (!process.env.RESEND_API_KEY) {
+      throw new Error("RESEND_API_KEY is required for EMAIL_TRANSPORT=resend");
+    }
+    return createResendTransport(process.env.RESEND_API_KEY);
+  }
+
+  if (transport === "file") {
+    return createFileTransport(process.env.EMAIL_FILE_DIR || DEFAULT_FILE_DIR);
+  }
+
+  if (transport === "disabled") {
+    logger.warn("[Email] Email delivery is disabled (RESEND_API_KEY not set) - emails are not sent");
+    return createDisabledTransport();
+  }
+
+  if (transport !== "memory") {
+    throw new Error(`Unknown EMAIL_TRANSPORT "${transport}" (expected: resend, file, memory, disabled)`);
+  }
+  return createMemoryTransport();
+}
+
+/**
+ * Reserve a dedupe key for sending
+ * Only one caller can take a new key, or one whose last send failed. A send interrupted
+ * before it finished stays pending: missing an email beats sending it twice.
+ *
+ * @returns The delivery id, or null when the email was already sent or is being sent
+ */
+async function claimDelivery(values: typeof emailDelivery.$inferInsert): Promise<string | null> {
+  const [inserted] = await db
+    .insert(emailDelivery)
+    .values(values)
+    .onConflictDoNothing()
+    .returning({ id: emailDelivery.id });
+  if (inserted) return inserted.id;
+
+  const [retried] = await db
+    .update(emailDelivery)
+    .set({ status: "pending", to: values.to, transport: values.transport })
+    .where(and(eq(emailDelivery.dedupeKey, values.dedupeKey!), eq(emailDelivery.status, "failed")))
+    .returning({ id: emailDelivery.id });
+  return retried ? retried.id : null;
+}
+
+export function createEmailService({
+  transport,
+  from = DEFAULT_FROM,
+}: {
+  transport: EmailTransport;
+  from?: string;
+}): EmailService {
+  const service: EmailService = {
+    transport,
+
+    async send(to, template, data, options = {}) {
+      const log = logger.child({ template, userId: options.userId, dedupeKey: options.dedupeKey });
+
+      if (transport.disabled) {
+        // Leave the dedupe key free, so the email goes out once a transport is configured
+        await db.insert(emailDelivery).values({
+          userId: options.userId,
+          template,
+          to,
+          status: "skipped",
+          transport: transport.name,
+        });
+        log.warn("[Email] Not sent - email delivery is disabled");
+        return "skipped";
+      }
+
+      const deliveryId = await claimDelivery({
+        userId: options.userId,
+        template,
+        to,
+        dedupeKey: options.dedupeKey,
+        transport: transport.name,
+      });
+      if (!deliveryId) {
+        log.debug("[Email] Skipping duplicate email");
+        return "duplicate";
+      }
+
+      const { subject, html, text } = renderEmailTemplate(template, data);
+
+      try {
+        const { id } = await transport.send({
+          template,
+          from,
+          to,
+          subject,
+          html,
+          text,
+          idempotencyKey: options.dedupeKey,
+        });
+
+        await db
+          .update(emailDelivery)
+          .set({ status: "sent", messageId: id, lastError: null, sentAt: new Date() })
+          .where(eq(emailDelivery.id, deliveryId));
+        log.info("[Email] Sent", { transport: transport.name, messageId: id });
+        return "sent";
+      } catch (error) {
+        log.error("[Email] Failed to send", { transport: transport.name, error });
+        await db
+          .update(emailDelivery)
+          .set({ status: "failed", lastError: error instanceof Error ? error.message : String(error) })
+          .where(eq(emailDelivery.id, deliveryId));
+        throw error;
+      }
+    },
+
+    async sendToUser(userId, template, data, options = {}) {
+      const [recipient] = await db
+        .select({ email: user.email, name: user.name })
+        .from(user)
+        .where(eq(user.id, userId))
+        .limit(1);
+
+      if (!recipient?.email) {
+        logger.warn("[Email] No email address for user, skipping", { userId, template });
+        return "no_recipient";
+      }
+
+      return service.send(
+        recipient.email,
+        template,
+        { ...data, name: recipient.name } as EmailTemplateData<typeof template>,
+        { ...options, userId }
+      );
+    },
+  };
+
+  return service;
+}
+
+let defaultEmailService: EmailService | null = null;
+
+/**
+ * Shared email service, using the transport configured by the environment
+ */
+export function getEmailService(): EmailService {
+  defaultEmailService ??= createEmailService({
+    transport: getDefaultEmailTransport(),
+    from: process.env.EMAIL_FROM || DEFAULT_FROM,
+  });
+  return defaultEmailService;
+}
@@ -0,0 +1,184 @@
+/**
+ * Transactional Email Templates
+ *
+ * Each template renders its data to a subject, an HTML body and a plain-text body.
+ * Sent with the email service (lib/services/email-service.ts).
+ *
+ * TEMPLATE: Adjust the copy and layout for your app.
+ */
+
+import { baseURL } from "@/baseUrl";
+
+const APP_NAME = "Axite MCP";
+
+export interface EmailContent {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface WelcomeEmailData {
+  name: string;
+  planDisplayName: string;
+  /** Set when the subscription starts with a trial */
+  trialEnd: Date | null;
+}
+
+export interface TrialEndingEmailData {
+  name: string;
+  planDisplayName: string;
+  daysLeft: number;
+  trialEnd: Date;
+}
+
+export interface TrialExpiredEmailData {
+  name: string;
+  planDisplayName: string;
+}
+
+export interface PaymentFailedEmailData {
+  name: string;
+  planDisplayName: string;
+  /** Formatted amount, e.g. "$20.00" */
+  amountDue: string | null;
+  /** Stripe-hosted page to pay the invoice */
+  invoiceUrl: string | null;
+}
+
+export interface SubscriptionCanceledEmailData {
+  name: string;
+  planDisplayName: string;
+  /** When access ends, or null when it already has */
+  endsAt: Date | null;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString("en-US", { month: "long", day: "numeric", year: "numeric" });
+}
+
+/**
+ * Render paragraphs (and an optional button) as a full email
+ * Paragraphs are plain text, escaped for the HTML body.
+ */
+function renderEmail({
+  subject,
+  name,
+  paragraphs,
+  action,
+}: {
+  subject: string;
+  name: string;
+  paragraphs: string[];
+  action?: { label: string; url: string };
+}): EmailContent {
+  const greeting = name ? `Hi ${name},` : "Hi,";
+  const signature = `— The ${APP_NAME} team`;
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f6f6f6;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Helvetica,Arial,sans-serif;color:#111;">
+    <div style="max-width:560px;margin:0 auto;padding:32px;background:#fff;border-radius:8px;">
+      <p>${escapeHtml(greeting)}</p>
+${paragraphs.map((paragraph) => `      <p style="line-height:1.5;">${escapeHtml(paragraph)}</p>`).join("\n")}
+${
+  action
+    ? `      <p style="margin:24px 0;"><a href="${escapeHtml(action.url)}" style="display:inline-block;padding:12px 20px;background:#111;color:#fff;border-radius:6px;text-decoration:none;">${escapeHtml(action.label)}</a></p>`
+    : ""
+}
+      <p>${escapeHtml(signature)}</p>
+    </div>
+  </body>
+</html>
+`;
+
+  const text = [greeting, ...paragraphs, ...(action ? [`${action.label}: ${action.url}`] : []), signature].join(
+    "\n\n"
+  );
+
+  return { subject, html, text };
+}
+
+/**
+ * All templates, by name
+ */
+export const EMAIL_TEMPLATES = {
+  welcome: ({ name, planDisplayName, trialEnd }: WelcomeEmailData) =>
+    renderEmail({
+      subject: `Welcome to ${APP_NAME} ${planDisplayName}`,
+      name,
+      paragraphs: [
+        `Thanks for subscribing to the ${planDisplayName} plan.`,
+        trialEnd
+          ? `Your free trial runs until ${formatDate(trialEnd)}. You won't be charged before then, and you can cancel at any time.`
+          : "Your subscription is active, so everything in your plan is available right away.",
+        "Ask your assistant to show your subscription whenever you want to change plans or manage billing.",
+      ],
+    }),
+
+  trial_ending: ({ name, planDisplayName, daysLeft, trialEnd }: TrialEndingEmailData) =>
+    renderEmail({
+      subject:
+        daysLeft === 1
+          ? `Your ${APP_NAME} trial ends tomorrow`
+          : `Your ${APP_NAME} trial ends in ${daysLeft} days`,
+      name,
+      paragraphs: [
+        `Your ${planDisplayName} trial ends on ${formatDate(trialEnd)}.`,
+        "Your subscription continues automatically after the trial. To cancel or change plans, ask your assistant to open your subscription.",
+      ],
+    }),
+
+  trial_expired: ({ name, planDisplayName }: TrialExpiredEmailData) =>
+    renderEmail({
+      subject: `Your ${APP_NAME} trial has ended`,
+      name,
+      paragraphs: [
+        `Your ${planDisplayName} trial has ended without a subscription, so plan features are no longer available.`,
+        "Subscribe at any time to pick up where you left off.",
+      ],
+      ...(baseURL ? { action: { label: "Choose a plan", url: `${baseURL}/` } } : {}),
+    }),
+
+  payment_failed: ({ name, planDisplayName, amountDue, invoiceUrl }: PaymentFailedEmailData) =>
+    renderEmail({
+      subject: `Action needed: your ${APP_NAME} payment failed`,
+      name,
+      paragraphs: [
+        `We couldn't collect ${amountDue ? `your payment of ${amountDue}` : "your payment"} for the ${planDisplayName} plan.`,
+        "Stripe will retry the payment over the next few days. Update your payment method to keep your subscription active.",
+      ],
+      ...(invoiceUrl ? { action: { label: "Pay invoice", url: invoiceUrl } } : {}),
+    }),
+
+  subscription_canceled: ({ name, planDisplayName, endsAt }: SubscriptionCanceledEmailData) =>
+    renderEmail({
+      subject: `Your ${APP_NAME} subscription has been canceled`,
+      name,
+      paragraphs: [
+        endsAt && endsAt.getTime() > Date.now()
+          ? `Your ${planDisplayName} subscription has been canceled. You keep access until ${formatDate(endsAt)}.`
+          : `Your ${planDisplayName} subscription has been canceled.`,
+        "You can resubscribe at any time from your assistant.",
+      ],
+    }),
+} satisfies Record<string, (data: never) => EmailContent>;
+
+export type EmailTemplate = keyof typeof EMAIL_TEMPLATES;
+
+export type EmailTemplateData<T extends EmailTemplate> = Parameters<(typeof EMAIL_TEMPLATES)[T]>[0];
+
+/**
+ * Render a template
+ */
+export function renderEmailTemplate<T extends EmailTemplate>(template: T, data: EmailTemplateData<T>): EmailContent {
+  return (EMAIL_TEMPLATES[template] as (data: EmailTemplateData<T>) => EmailContent)(data);
+}
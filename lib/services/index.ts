@@ -1,2 +1,6 @@
 // Export all services
 export * from './logger-service';
+export * from './telemetry';
+export * from './usage-service';
+export * from './stripe-client';
+export * from './metered-billing';
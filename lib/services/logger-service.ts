@@ -1,23 +1,108 @@
 /**
  * Logger Service
  *
- * Simple wrapper around console.log for the template.
- * In a real app, replace this with Winston/Pino (as seen in askmymoney-mcp).
+ * Structured, leveled logger built on Winston.
+ * Production writes one JSON object per line; development prints a readable, colorized line.
+ * Bind context once with `logger.child({ userId, tool })` instead of repeating it on every call.
+ *
+ * Configuration (environment):
+ * - LOG_LEVEL   error | warn | info | debug (default: info in production, debug otherwise)
+ * - LOG_FORMAT  json | pretty (default: json in production, pretty otherwise)
  */
 
-export const logger = {
-  debug: (message: string, meta?: any) => {
-    if (process.env.NODE_ENV !== 'production') {
-      console.debug(`[DEBUG] ${message}`, meta ? JSON.stringify(meta, null, 2) : '');
+import { inspect } from "node:util";
+import winston from "winston";
+
+export type LogLevel = "error" | "warn" | "info" | "debug";
+
+/**
+ * Structured fields attached to a log entry
+ */
+export type LogContext = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, meta?: LogContext): void;
+  info(message: string, meta?: LogContext): void;
+  warn(message: string, meta?: LogContext): void;
+  error(message: string, meta?: LogContext): void;
+
+  /** Logger that adds `context` to every entry (merged over the parent's context) */
+  child(context: LogContext): Logger;
+}
+
+const LOG_LEVELS: readonly LogLevel[] = ["error", "warn", "info", "debug"];
+
+const isProduction = process.env.NODE_ENV === "production";
+
+function resolveLevel(): LogLevel {
+  const level = process.env.LOG_LEVEL?.toLowerCase() as LogLevel | undefined;
+  if (level && LOG_LEVELS.includes(level)) return level;
+  return isProduction ? "info" : "debug";
+}
+
+/**
+ * Error instances serialize to `{}` in JSON - keep their name, message and stack
+ */
+const serializeErrors = winston.format((info) => {
+  for (const [key, value] of Object.entries(info)) {
+    if (value instanceof Error) {
+      info[key] = { name: value.name, message: value.message, stack: value.stack };
     }
-  },
-  info: (message: string, meta?: any) => {
-    console.log(`[INFO] ${message}`, meta ? JSON.stringify(meta, null, 2) : '');
-  },
-  warn: (message: string, meta?: any) => {
-    console.warn(`[WARN] ${message}`, meta ? JSON.stringify(meta, null, 2) : '');
-  },
-  error: (message: string, meta?: any) => {
-    console.error(`[ERROR] ${message}`, meta ? JSON.stringify(meta, null, 2) : '');
   }
-};
+  return info;
+});
+
+const jsonFormat = winston.format.combine(
+  serializeErrors(),
+  winston.format.timestamp(),
+  winston.format.json()
+);
+
+// Errors are left to util.inspect here, which prints their stack on separate lines
+const prettyFormat = winston.format.combine(
+  winston.format.timestamp({ format: "HH:mm:ss.SSS" }),
+  winston.format.colorize(),
+  winston.format.printf(({ level, message, timestamp, ...meta }) => {
+    // Object.entries drops Winston's internal symbol keys
+    const entries = Object.entries(meta);
+    const fields = entries.length
+      ? ` ${inspect(Object.fromEntries(entries), { colors: true, depth: 4, compact: true, breakLength: Infinity })}`
+      : "";
+    return `${timestamp} ${level} ${message}${fields}`;
+  })
+);
+
+const useJson = (process.env.LOG_FORMAT ?? (isProduction ? "json" : "pretty")) === "json";
+
+const rootLogger = winston.createLogger({
+  level: resolveLevel(),
+  levels: winston.config.npm.levels,
+  format: useJson ? jsonFormat : prettyFormat,
+  transports: [new winston.transports.Console()],
+});
+
+function wrap(instance: winston.Logger): Logger {
+  return {
+    debug: (message, meta) => instance.debug(message, meta),
+    info: (message, meta) => instance.info(message, meta),
+    warn: (message, meta) => instance.warn(message, meta),
+    error: (message, meta) => instance.error(message, meta),
+    child: (context) => wrap(instance.child(context)),
+  };
+}
+
+export const logger: Logger = wrap(rootLogger);
+
+/**
+ * Send log entries to an additional Winston transport (file, HTTP, log service, ...)
+ */
+export function addLogTransport(transport: winston.transport): void {
+  rootLogger.add(transport);
+}
+
+/**
+ * Change the minimum level at runtime (e.g. quiet logs in scripts)
+ */
+export function setLogLevel(level: LogLevel): void {
+  rootLogger.level = level;
+}
@@ -0,0 +1,451 @@
+/**
+ * Metered Billing Service
+ *
+ * Reports recorded tool usage (lib/services/usage-service.ts) to Stripe for subscribers on
+ * metered plans (`metered: true` in lib/config/plans.ts), as Billing meter events. Usage is aggregated into hourly windows: once a
+ * window has closed, a `usage_report` row is queued for it and sent to Stripe.
+ *
+ * - Idempotency: each report has a deterministic identifier, sent as both the meter event
+ *   identifier and the request idempotency key, so retries and concurrent runs can't double-bill.
+ * - Retries: the Stripe client retries network errors within a run; failed reports are retried
+ *   on later runs with exponential backoff, and marked `failed` once MAX_ATTEMPTS is reached or
+ *   Stripe rejects them outright.
+ * - Reconciliation: `reconcileMeteredUsage` recounts the billing period, queues corrections for
+ *   usage recorded after its window was reported, and compares the totals with Stripe's meter.
+ *
+ * Both jobs run from `pnpm billing:usage` (scripts/billing-usage.ts), e.g. on an hourly cron.
+ *
+ * Configuration (environment):
+ * - STRIPE_METERED_PRICE_ID   Price of the `metered` plan; both jobs are off until a metered plan has a price
+ * - STRIPE_METER_EVENT_NAME   Event name of the Stripe meter (default: mcp_tool_usage)
+ * - STRIPE_METER_ID           Meter id, to compare totals with Stripe during reconciliation (optional)
+ */
+
+import { and, asc, eq, gte, inArray, isNotNull, lt, lte, max, sql, sum } from "drizzle-orm";
+import type Stripe from "stripe";
+import { db } from "@/lib/db";
+import { subscription, usageEvent, usageReport } from "@/lib/db/schema";
+import { PLAN_NAMES, getPlan, getPlanPriceId } from "@/lib/config/plans";
+import { logger } from "@/lib/services/logger-service";
+import { stripeClient } from "@/lib/services/stripe-client";
+
+const METERED_PLANS = PLAN_NAMES.filter((name) => getPlan(name)?.metered);
+
+const DEFAULT_METER_EVENT_NAME = "mcp_tool_usage";
+
+const WINDOW_MS = 60 * 60 * 1000;
+
+// Usage is recorded once a tool call finishes - leave closed windows time to settle
+const SETTLE_MS = 5 * 60 * 1000;
+
+// Stripe rejects meter events older than 35 days
+const MAX_LOOKBACK_MS = 30 * 24 * WINDOW_MS;
+
+const MAX_ATTEMPTS = 8;
+const MAX_BACKOFF_MS = 6 * WINDOW_MS;
+
+const BATCH_SIZE = 500;
+
+// Metered subscriptions keep accruing usage while a payment is being retried
+const BILLABLE_STATUSES = ["active", "trialing", "past_due"];
+
+/**
+ * Stripe API calls used for metered billing - a Stripe client, or a stub in tests
+ */
+export interface MeteredBillingClient {
+  billing: {
+    meterEvents: {
+      create(
+        params: Stripe.Billing.MeterEventCreateParams,
+        options?: Stripe.RequestOptions
+      ): Promise<unknown>;
+    };
+    meters: {
+      listEventSummaries(
+        id: string,
+        params: Stripe.Billing.MeterListEventSummariesParams
+      ): PromiseLike<{ data: Stripe.Billing.MeterEventSummary[] }>;
+    };
+  };
+}
+
+export interface MeteredBillingOptions {
+  /** Defaults to the shared client (lib/services/stripe-client.ts) */
+  client?: MeteredBillingClient | null;
+  now?: Date;
+}
+
+export interface UsageReportRun {
+  /** Reports created for newly closed windows */
+  queued: number;
+  reported: number;
+  /** Failed attempts that will be retried on a later run */
+  retrying: number;
+  /** Reports given up on */
+  failed: number;
+}
+
+export interface UsageReconciliation {
+  userId: string;
+  periodStart: Date;
+  periodEnd: Date;
+  /** Units in usage_event for the period */
+  recordedUnits: number;
+  /** Units Stripe has acknowledged */
+  reportedUnits: number;
+  /** Units in reports given up on, which need attention */
+  failedUnits: number;
+  /** Units queued by this run to cover usage missing from reports */
+  correctedUnits: number;
+  /** Units on Stripe's meter, or null when STRIPE_METER_ID isn't set */
+  stripeUnits: number | null;
+}
+
+type MeteredSubscription = {
+  userId: string;
+  stripeCustomerId: string;
+  periodStart: Date | null;
+};
+
+export function isMeteredBillingEnabled(): boolean {
+  return METERED_PLANS.some((name) => getPlanPriceId(name));
+}
+
+function getMeterEventName(): string {
+  return process.env.STRIPE_METER_EVENT_NAME || DEFAULT_METER_EVENT_NAME;
+}
+
+function floorToWindow(time: number): number {
+  return Math.floor(time / WINDOW_MS) * WINDOW_MS;
+}
+
+/**
+ * Identifier of the report for one user's window
+ * Corrections append the units already queued for the window, so rerunning reconciliation
+ * before they are sent can't queue the same correction twice.
+ */
+function reportIdentifier(userId: string, windowStart: Date, accountedUnits?: number): string {
+  const base = `usage:${userId}:${windowStart.toISOString()}`;
+  return accountedUnits === undefined ? base : `${base}:+${accountedUnits}`;
+}
+
+function resolveClient(options: MeteredBillingOptions): MeteredBillingClient | null {
+  return options.client === undefined ? stripeClient : options.client;
+}
+
+async function getMeteredSubscriptions(): Promise<MeteredSubscription[]> {
+  const rows = await db
+    .select({
+      userId: subscription.referenceId,
+      stripeCustomerId: subscription.stripeCustomerId,
+      periodStart: subscription.periodStart,
+    })
+    .from(subscription)
+    .where(
+      and(
+        inArray(subscription.plan, METERED_PLANS),
+        inArray(subscription.status, BILLABLE_STATUSES),
+        isNotNull(subscription.stripeCustomerId)
+      )
+    );
+
+  return rows.map((row) => ({ ...row, stripeCustomerId: row.stripeCustomerId! }));
+}
+
+/**
+ * Start of the oldest window to consider for a subscription
+ */
+function getPeriodStart(sub: MeteredSubscription, cutoff: number): number {
+  const periodStart = sub.periodStart?.getTime() ?? cutoff - WINDOW_MS;
+  return floorToWindow(Math.max(periodStart, cutoff - MAX_LOOKBACK_MS));
+}
+
+/**
+ * Recorded usage per hourly window in [from, to), keyed by window start (ms)
+ */
+async function getUsageByWindow(userId: string, from: number, to: number): Promise<Map<number, number>> {
+  const windowStart = sql<Date>`date_trunc('hour', ${usageEvent.createdAt})`.mapWith(usageEvent.createdAt);
+
+  const rows = await db
+    .select({ windowStart, units: sum(usageEvent.units) })
+    .from(usageEvent)
+    .where(
+      and(
+        eq(usageEvent.userId, userId),
+        gte(usageEvent.createdAt, new Date(from)),
+        lt(usageEvent.createdAt, new Date(to))
+      )
+    )
+    .groupBy(windowStart);
+
+  return new Map(rows.map((row) => [row.windowStart.getTime(), Number(row.units ?? 0)]));
+}
+
+/**
+ * Queue a report for each window that closed since the user's last report
+ */
+async function queueClosedWindows(cutoff: number, now: Date): Promise<number> {
+  let queued = 0;
+
+  for (const sub of await getMeteredSubscriptions()) {
+    const [last] = await db
+      .select({ windowEnd: max(usageReport.windowEnd) })
+      .from(usageReport)
+      .where(eq(usageReport.userId, sub.userId));
+
+    const from = Math.max(last?.windowEnd?.getTime() ?? 0, getPeriodStart(sub, cutoff));
+    const windows = await getUsageByWindow(sub.userId, from, cutoff);
+    if (windows.size === 0) continue;
+
+    const inserted = await db
+      .insert(usageReport)
+      .values(
+        [...windows].map(([start, units]) => ({
+          userId: sub.userId,
+          stripeCustomerId: sub.stripeCustomerId,
+          identifier: reportIdentifier(sub.userId, new Date(start)),
+          windowStart: new Date(start),
+          windowEnd: new Date(start + WINDOW_MS),
+          units,
+          nextAttemptAt: now,
+        }))
+      )
+      .onConflictDoNothing({ target: usageReport.identifier })
+      .returning({ id: usageReport.id });
+
+    queued += inserted.length;
+  }
+
+  return queued;
+}
+
+/**
+ * Network failures, rate limits, conflicts and Stripe server errors are worth retrying
+ */
+function isRetryable(error: unknown): boolean {
+  const statusCode = (error as { statusCode?: number }).statusCode;
+  return statusCode === undefined || statusCode === 409 || statusCode === 429 || statusCode >= 500;
+}
+
+function getBackoffMs(attempts: number): number {
+  return Math.min(60_000 * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+}
+
+/**
+ * Send every report that is due, oldest window first
+ */
+async function sendDueReports(
+  client: MeteredBillingClient,
+  now: Date
+): Promise<Omit<UsageReportRun, "queued">> {
+  const result = { reported: 0, retrying: 0, failed: 0 };
+
+  const due = await db
+    .select()
+    .from(usageReport)
+    .where(and(eq(usageReport.status, "pending"), lte(usageReport.nextAttemptAt, now)))
+    .orderBy(asc(usageReport.windowStart))
+    .limit(BATCH_SIZE);
+
+  for (const report of due) {
+    const attempts = report.attempts + 1;
+    const log = logger.child({ userId: report.userId, identifier: report.identifier });
+
+    try {
+      await client.billing.meterEvents.create(
+        {
+          event_name: getMeterEventName(),
+          identifier: report.identifier,
+          // Last second of the window, so the usage lands in the billing period it belongs to
+          timestamp: Math.floor(report.windowEnd.getTime() / 1000) - 1,
+          payload: {
+            stripe_customer_id: report.stripeCustomerId,
+            value: String(report.units),
+          },
+        },
+        { idempotencyKey: report.identifier, maxNetworkRetries: 2 }
+      );
+
+      await db
+        .update(usageReport)
+        .set({ status: "reported", attempts, lastError: null, reportedAt: new Date() })
+        .where(eq(usageReport.id, report.id));
+      result.reported++;
+    } catch (error) {
+      const giveUp = !isRetryable(error) || attempts >= MAX_ATTEMPTS;
+      const lastError = error instanceof Error ? error.message : String(error);
+
+      await db
+        .update(usageReport)
+        .set({
+          status: giveUp ? "failed" : "pending",
+          attempts,
+          lastError,
+          nextAttemptAt: new Date(now.getTime() + getBackoffMs(attempts)),
+        })
+        .where(eq(usageReport.id, report.id));
+
+      if (giveUp) {
+        log.error("[Billing] Usage report failed, giving up", { error, attempts, units: report.units });
+        result.failed++;
+      } else {
+        log.warn("[Billing] Usage report failed, will retry", { error: lastError, attempts });
+        result.retrying++;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Queue usage for closed windows and send due reports to Stripe
+ */
+export async function reportMeteredUsage(options: MeteredBillingOptions = {}): Promise<UsageReportRun> {
+  const client = resolveClient(options);
+  if (!isMeteredBillingEnabled() || !client) {
+    logger.warn("[Billing] Metered billing is not configured, skipping usage report");
+    return { queued: 0, reported: 0, retrying: 0, failed: 0 };
+  }
+
+  const now = options.now ?? new Date();
+  const queued = await queueClosedWindows(floorToWindow(now.getTime() - SETTLE_MS), now);
+  const sent = await sendDueReports(client, now);
+
+  logger.info("[Billing] Usage report run complete", { queued, ...sent });
+  return { queued, ...sent };
+}
+
+/**
+ * Total units on Stripe's meter for a customer between two window boundaries
+ */
+async function getStripeUnits(
+  client: MeteredBillingClient,
+  customer: string,
+  from: number,
+  to: number
+): Promise<number | null> {
+  const meterId = process.env.STRIPE_METER_ID;
+  if (!meterId) return null;
+
+  const summaries = await client.billing.meters.listEventSummaries(meterId, {
+    customer,
+    start_time: from / 1000,
+    end_time: to / 1000,
+  });
+  return summaries.data.reduce((total, summary) => total + summary.aggregated_value, 0);
+}
+
+async function reconcileSubscription(
+  client: MeteredBillingClient,
+  sub: MeteredSubscription,
+  cutoff: number,
+  now: Date
+): Promise<UsageReconciliation> {
+  const from = getPeriodStart(sub, cutoff);
+  const recorded = await getUsageByWindow(sub.userId, from, cutoff);
+
+  const reports = await db
+    .select({
+      windowStart: usageReport.windowStart,
+      status: usageReport.status,
+      units: usageReport.units,
+    })
+    .from(usageReport)
+    .where(
+      and(
+        eq(usageReport.userId, sub.userId),
+        gte(usageReport.windowStart, new Date(from)),
+        lt(usageReport.windowStart, new Date(cutoff))
+      )
+    );
+
+  const accounted = new Map<number, number>();
+  let reportedUnits = 0;
+  let failedUnits = 0;
+  for (const report of reports) {
+    const start = report.windowStart.getTime();
+    accounted.set(start, (accounted.get(start) ?? 0) + report.units);
+    if (report.status === "reported") reportedUnits += report.units;
+    if (report.status === "failed") failedUnits += report.units;
+  }
+
+  // Usage recorded after its window was queued, e.g. by a slow tool call
+  const corrections = [...recorded]
+    .map(([start, units]) => ({ start, units, accountedUnits: accounted.get(start) ?? 0 }))
+    .filter(({ units, accountedUnits }) => units > accountedUnits);
+
+  if (corrections.length > 0) {
+    await db
+      .insert(usageReport)
+      .values(
+        corrections.map(({ start, units, accountedUnits }) => ({
+          userId: sub.userId,
+          stripeCustomerId: sub.stripeCustomerId,
+          identifier: reportIdentifier(sub.userId, new Date(start), accountedUnits || undefined),
+          windowStart: new Date(start),
+          windowEnd: new Date(start + WINDOW_MS),
+          units: units - accountedUnits,
+          nextAttemptAt: now,
+        }))
+      )
+      .onConflictDoNothing({ target: usageReport.identifier });
+  }
+
+  const recordedUnits = [...recorded.values()].reduce((total, units) => total + units, 0);
+  const correctedUnits = corrections.reduce(
+    (total, { units, accountedUnits }) => total + units - accountedUnits,
+    0
+  );
+  const stripeUnits = await getStripeUnits(client, sub.stripeCustomerId, from, cutoff);
+
+  const log = logger.child({ userId: sub.userId });
+  if (correctedUnits > 0) {
+    log.warn("[Billing] Queued usage missing from reports", { correctedUnits });
+  }
+  if (failedUnits > 0) {
+    log.error("[Billing] Usage reports failed and were not billed", { failedUnits });
+  }
+  // Stripe aggregates meter events asynchronously, so a fresh report may not show up yet
+  if (stripeUnits !== null && stripeUnits !== reportedUnits) {
+    log.warn("[Billing] Stripe meter total differs from reported usage", { stripeUnits, reportedUnits });
+  }
+
+  return {
+    userId: sub.userId,
+    periodStart: new Date(from),
+    periodEnd: new Date(cutoff),
+    recordedUnits,
+    reportedUnits,
+    failedUnits,
+    correctedUnits,
+    stripeUnits,
+  };
+}
+
+/**
+ * Compare recorded, reported and Stripe-side usage for each metered subscription's current
+ * billing period. Corrections are queued and go out with the next usage report run.
+ */
+export async function reconcileMeteredUsage(
+  options: MeteredBillingOptions = {}
+): Promise<UsageReconciliation[]> {
+  const client = resolveClient(options);
+  if (!isMeteredBillingEnabled() || !client) {
+    logger.warn("[Billing] Metered billing is not configured, skipping reconciliation");
+    return [];
+  }
+
+  const now = options.now ?? new Date();
+  const cutoff = floorToWindow(now.getTime() - SETTLE_MS);
+
+  const results: UsageReconciliation[] = [];
+  for (const sub of await getMeteredSubscriptions()) {
+    try {
+      results.push(await reconcileSubscription(client, sub, cutoff, now));
+    } catch (error) {
+      logger.error("[Billing] Reconciliation failed", { error, userId: sub.userId });
+    }
+  }
+  return results;
+}
@@ -0,0 +1,32 @@
+/**
+ * Stripe Client
+ *
+ * Shared Stripe API client, or null when STRIPE_SECRET_KEY isn't set.
+ * Used by the Better Auth Stripe plugin (lib/auth/index.ts) and metered billing.
+ *
+ * Configuration (environment):
+ * - STRIPE_SECRET_KEY  Stripe API secret key
+ * - STRIPE_API_BASE    Send API requests elsewhere, e.g. stripe-mock at http://localhost:12111
+ */
+
+import Stripe from "stripe";
+
+export const STRIPE_API_VERSION = "2025-10-29.clover";
+
+function apiBaseConfig(): Pick<Stripe.StripeConfig, "host" | "port" | "protocol"> {
+  if (!process.env.STRIPE_API_BASE) return {};
+
+  const url = new URL(process.env.STRIPE_API_BASE);
+  return {
+    host: url.hostname,
+    port: url.port || undefined,
+    protocol: url.protocol === "http:" ? "http" : "https",
+  };
+}
+
+export const stripeClient = process.env.STRIPE_SECRET_KEY
+  ? new Stripe(process.env.STRIPE_SECRET_KEY, {
+      apiVersion: STRIPE_API_VERSION,
+      ...apiBaseConfig(),
+    })
+  : null;
@@ -0,0 +1,290 @@
+/**
+ * Stripe Event Service
+ *
+ * Stores every Stripe webhook event in `stripe_event` and runs the app's event hooks
+ * exactly once per event. Called from the Stripe plugin's `onEvent` (lib/auth/index.ts),
+ * after the plugin has updated its own subscription rows.
+ *
+ * - Deduplication: redelivered events are recognised by id and skipped once processed.
+ * - Exactly once: an event is claimed atomically before its hooks run, and each hook is
+ *   recorded as it completes, so a retry only runs the hooks that haven't succeeded yet.
+ * - Retries: a failing hook fails the webhook, so Stripe redelivers the event with backoff.
+ *   Events that still fail are replayed from the stored payload with
+ *   `pnpm stripe:events replay` (scripts/stripe-events.ts).
+ */
+
+import { and, asc, desc, eq, inArray, lt, or, sql } from "drizzle-orm";
+import type Stripe from "stripe";
+import { db } from "@/lib/db";
+import { stripeEvent } from "@/lib/db/schema";
+import { logger } from "@/lib/services/logger-service";
+import { sendPaymentFailedEmail } from "@/lib/services/subscription-emails";
+import { syncSubscriptionAddOns } from "@/lib/utils/entitlements";
+
+// A claim older than this belongs to a process that died mid-event
+const STALE_PROCESSING_MS = 10 * 60 * 1000;
+
+const REPLAY_BATCH_SIZE = 100;
+
+export type StripeEventStatus = "pending" | "processing" | "processed" | "failed";
+
+/**
+ * What handling a webhook delivery did
+ * - processed: hooks ran (or none matched)
+ * - duplicate: the event was already processed
+ * - in_progress: another delivery holds the claim
+ */
+export type StripeEventOutcome = "processed" | "duplicate" | "in_progress";
+
+export interface StripeEventHook<T extends Stripe.Event.Type = Stripe.Event.Type> {
+  /** Stable name, recorded once the hook has run for an event - don't rename deployed hooks */
+  name: string;
+  events: readonly T[];
+  run: (event: Extract<Stripe.Event, { type: T }>) => Promise<void>;
+}
+
+export interface StripeEventReplay {
+  id: string;
+  type: string;
+  outcome: StripeEventOutcome | "failed";
+  error?: string;
+}
+
+/**
+ * Define a hook, typing `event` by the event types it handles
+ */
+export function defineStripeEventHook<T extends Stripe.Event.Type>(
+  hook: StripeEventHook<T>
+): StripeEventHook {
+  return hook as unknown as StripeEventHook;
+}
+
+/**
+ * App-level hooks, run in order after the Stripe plugin's own handling
+ * TEMPLATE: Add your own hooks here (provisioning, emails, analytics...)
+ */
+export const STRIPE_EVENT_HOOKS: StripeEventHook[] = [
+  // Keep add-ons (lib/config/plans.ts) in sync with the subscription's items
+  defineStripeEventHook({
+    name: "sync-subscription-add-ons",
+    events: [
+      "customer.subscription.created",
+      "customer.subscription.updated",
+      "customer.subscription.deleted",
+    ],
+    run: (event) => syncSubscriptionAddOns(event.data.object),
+  }),
+  // Ask the subscriber to update their payment method (lib/services/subscription-emails.ts)
+  defineStripeEventHook({
+    name: "email-payment-failed",
+    events: ["invoice.payment_failed"],
+    run: async (event) => {
+      await sendPaymentFailedEmail(event.data.object);
+    },
+  }),
+];
+
+/**
+ * Store an event, or count a redelivery of one already stored
+ *
+ * @returns The stored event's status
+ */
+async function recordStripeEvent(event: Stripe.Event): Promise<StripeEventStatus> {
+  const [inserted] = await db
+    .insert(stripeEvent)
+    .values({
+      id: event.id,
+      type: event.type,
+      payload: event,
+      livemode: event.livemode,
+      stripeCreatedAt: new Date(event.created * 1000),
+    })
+    .onConflictDoNothing()
+    .returning({ status: stripeEvent.status });
+  if (inserted) return inserted.status as StripeEventStatus;
+
+  const [existing] = await db
+    .update(stripeEvent)
+    .set({ deliveries: sql`${stripeEvent.deliveries} + 1` })
+    .where(eq(stripeEvent.id, event.id))
+    .returning({ status: stripeEvent.status });
+  return existing.status as StripeEventStatus;
+}
+
+/**
+ * Claim a stored event for processing
+ * Only one caller can move an event out of pending/failed (or a stale processing claim)
+ *
+ * @returns Hooks already completed for the event, or null when it isn't claimable
+ */
+async function claimStripeEvent(id: string, now: Date): Promise<string[] | null> {
+  const [claimed] = await db
+    .update(stripeEvent)
+    .set({
+      status: "processing",
+      attempts: sql`${stripeEvent.attempts} + 1`,
+      processingStartedAt: now,
+    })
+    .where(
+      and(
+        eq(stripeEvent.id, id),
+        or(
+          inArray(stripeEvent.status, ["pending", "failed"]),
+          and(
+            eq(stripeEvent.status, "processing"),
+            lt(stripeEvent.processingStartedAt, new Date(now.getTime() - STALE_PROCESSING_MS))
+          )
+        )
+      )
+    )
+    .returning({ completedHooks: stripeEvent.completedHooks });
+
+  return claimed ? claimed.completedHooks : null;
+}
+
+/**
+ * Run the hooks matching a claimed event, skipping those already completed
+ *
+ * @throws The first hook error, after marking the event failed
+ */
+async function runStripeEventHooks(
+  event: Stripe.Event,
+  completedHooks: string[],
+  hooks: readonly StripeEventHook[]
+): Promise<void> {
+  const log = logger.child({ stripeEventId: event.id, type: event.type });
+  const completed = [...completedHooks];
+
+  for (const hook of hooks) {
+    if (!hook.events.includes(event.type) || completed.includes(hook.name)) continue;
+
+    try {
+      await hook.run(event as never);
+    } catch (error) {
+      log.error("[Stripe Events] Hook failed", { hook: hook.name, error });
+      await db
+        .update(stripeEvent)
+        .set({
+          status: "failed",
+          lastError: `${hook.name}: ${error instanceof Error ? error.message : String(error)}`,
+        })
+        .where(eq(stripeEvent.id, event.id));
+      throw error;
+    }
+
+    completed.push(hook.name);
+    await db
+      .update(stripeEvent)
+      .set({ completedHooks: completed })
+      .where(eq(stripeEvent.id, event.id));
+  }
+
+  await db
+    .update(stripeEvent)
+    .set({ status: "processed", lastError: null, processedAt: new Date() })
+    .where(eq(stripeEvent.id, event.id));
+  log.debug("[Stripe Events] Event processed", { hooks: completed });
+}
+
+/**
+ * Store a webhook event and run its hooks, once
+ *
+ * @throws When a hook fails - the webhook responds with an error and Stripe redelivers
+ */
+export async function handleStripeEvent(
+  event: Stripe.Event,
+  hooks: readonly StripeEventHook[] = STRIPE_EVENT_HOOKS
+): Promise<StripeEventOutcome> {
+  const status = await recordStripeEvent(event);
+  if (status === "processed") {
+    logger.info("[Stripe Events] Skipping duplicate event", { stripeEventId: event.id, type: event.type });
+    return "duplicate";
+  }
+
+  const completedHooks = await claimStripeEvent(event.id, new Date());
+  if (!completedHooks) {
+    logger.info("[Stripe Events] Event is being processed by another delivery", {
+      stripeEventId: event.id,
+      type: event.type,
+    });
+    return "in_progress";
+  }
+
+  await runStripeEventHooks(event, completedHooks, hooks);
+  return "processed";
+}
+
+/**
+ * Stored events, most recent first
+ */
+export async function listStripeEvents(
+  options: { status?: StripeEventStatus; limit?: number } = {}
+) {
+  return db
+    .select({
+      id: stripeEvent.id,
+      type: stripeEvent.type,
+      status: stripeEvent.status,
+      attempts: stripeEvent.attempts,
+      deliveries: stripeEvent.deliveries,
+      lastError: stripeEvent.lastError,
+      receivedAt: stripeEvent.receivedAt,
+    })
+    .from(stripeEvent)
+    .where(options.status ? eq(stripeEvent.status, options.status) : undefined)
+    .orderBy(desc(stripeEvent.receivedAt))
+    .limit(options.limit ?? 50);
+}
+
+/**
+ * Re-run the hooks of failed events (and events stuck processing) from their stored payload
+ *
+ * @param options.ids - Only replay these events
+ * @returns One result per event, oldest first
+ */
+export async function replayStripeEvents(
+  options: { ids?: string[]; hooks?: readonly StripeEventHook[]; now?: Date } = {}
+): Promise<StripeEventReplay[]> {
+  const now = options.now ?? new Date();
+  const hooks = options.hooks ?? STRIPE_EVENT_HOOKS;
+
+  const events = await db
+    .select({ id: stripeEvent.id, type: stripeEvent.type, payload: stripeEvent.payload })
+    .from(stripeEvent)
+    .where(
+      and(
+        options.ids ? inArray(stripeEvent.id, options.ids) : undefined,
+        or(
+          eq(stripeEvent.status, "failed"),
+          and(
+            eq(stripeEvent.status, "processing"),
+            lt(stripeEvent.processingStartedAt, new Date(now.getTime() - STALE_PROCESSING_MS))
+          )
+        )
+      )
+    )
+    .orderBy(asc(stripeEvent.stripeCreatedAt))
+    .limit(REPLAY_BATCH_SIZE);
+
+  const results: StripeEventReplay[] = [];
+  for (const { id, type, payload } of events) {
+    const completedHooks = await claimStripeEvent(id, now);
+    if (!completedHooks) {
+      results.push({ id, type, outcome: "in_progress" });
+      continue;
+    }
+
+    try {
+      await runStripeEventHooks(payload as Stripe.Event, completedHooks, hooks);
+      results.push({ id, type, outcome: "processed" });
+    } catch (error) {
+      results.push({ id, type, outcome: "failed", error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  logger.info("[Stripe Events] Replay finished", {
+    replayed: results.length,
+    failed: results.filter((result) => result.outcome === "failed").length,
+  });
+  return results;
+}
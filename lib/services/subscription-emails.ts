@@ -0,0 +1,231 @@
+/**
+ * Subscription Emails
+ *
+ * Subscription lifecycle emails (lib/services/email-templates.ts), sent from the Stripe
+ * plugin's callbacks (lib/auth/index.ts, lib/auth/stripe-plans.ts), the Stripe event hooks
+ * (lib/services/stripe-events.ts), and the daily "trial ends soon" reminder job.
+ *
+ * Every email has a dedupe key, so webhook redeliveries and repeated job runs send it once.
+ *
+ * Reminders run from `pnpm emails:reminders` (scripts/email-reminders.ts), e.g. on a daily cron.
+ *
+ * Configuration (environment):
+ * - TRIAL_REMINDER_DAYS   Days before a trial ends to remind the user, comma-separated (default: 3,1)
+ */
+
+import { and, eq, gt, lte } from "drizzle-orm";
+import type Stripe from "stripe";
+import type { Subscription } from "@better-auth/stripe";
+import { db } from "@/lib/db";
+import { subscription } from "@/lib/db/schema";
+import { getPlan } from "@/lib/config/plans";
+import { getEmailService } from "@/lib/services/email-service";
+import type { EmailSendOutcome, EmailService } from "@/lib/services/email-service";
+import { logger } from "@/lib/services/logger-service";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_TRIAL_REMINDER_DAYS = [3, 1];
+
+export interface SubscriptionEmailOptions {
+  /** Defaults to the shared service (getEmailService()) */
+  email?: EmailService;
+}
+
+export interface TrialReminderRun {
+  /** Trials ending within the largest reminder window */
+  checked: number;
+  sent: number;
+  /** Reminders already sent by an earlier run */
+  duplicate: number;
+  /** Not sent because email delivery is disabled */
+  skipped: number;
+  failed: number;
+}
+
+function planDisplayName(plan: string): string {
+  return getPlan(plan)?.displayName ?? plan;
+}
+
+/**
+ * Format a Stripe amount, which is in the currency's minor unit (cents for USD, yen for JPY)
+ */
+function formatAmount(amount: number, currency: string): string {
+  const format = new Intl.NumberFormat("en-US", { style: "currency", currency: currency.toUpperCase() });
+  const exponent = format.resolvedOptions().maximumFractionDigits ?? 2;
+  return format.format(amount / 10 ** exponent);
+}
+
+/**
+ * Reminder thresholds in days, largest first
+ */
+export function getTrialReminderDays(): number[] {
+  const configured = process.env.TRIAL_REMINDER_DAYS;
+  const days = configured
+    ? configured
+        .split(",")
+        .map((value) => Number.parseInt(value.trim(), 10))
+        .filter((value) => Number.isInteger(value) && value > 0)
+    : DEFAULT_TRIAL_REMINDER_DAYS;
+
+  return [...new Set(days)].sort((a, b) => b - a);
+}
+
+/**
+ * Welcome a new subscriber (covers the start of a trial)
+ */
+export async function sendWelcomeEmail(
+  sub: Subscription,
+  options: SubscriptionEmailOptions = {}
+): Promise<EmailSendOutcome> {
+  const email = options.email ?? getEmailService();
+  return email.sendToUser(
+    sub.referenceId,
+    "welcome",
+    {
+      planDisplayName: planDisplayName(sub.plan),
+      trialEnd: sub.status === "trialing" ? (sub.trialEnd ?? null) : null,
+    },
+    { dedupeKey: `welcome:${sub.id}` }
+  );
+}
+
+/**
+ * Tell the user their trial ended without converting to a paid subscription
+ */
+export async function sendTrialExpiredEmail(
+  sub: Subscription,
+  options: SubscriptionEmailOptions = {}
+): Promise<EmailSendOutcome> {
+  const email = options.email ?? getEmailService();
+  return email.sendToUser(
+    sub.referenceId,
+    "trial_expired",
+    { planDisplayName: planDisplayName(sub.plan) },
+    { dedupeKey: `trial_expired:${sub.id}` }
+  );
+}
+
+/**
+ * Confirm a cancellation, whether at period end or immediate
+ */
+export async function sendSubscriptionCanceledEmail(
+  sub: Subscription,
+  options: SubscriptionEmailOptions = {}
+): Promise<EmailSendOutcome> {
+  const email = options.email ?? getEmailService();
+  return email.sendToUser(
+    sub.referenceId,
+    "subscription_canceled",
+    {
+      planDisplayName: planDisplayName(sub.plan),
+      endsAt: sub.periodEnd ?? null,
+    },
+    { dedupeKey: `subscription_canceled:${sub.id}` }
+  );
+}
+
+/**
+ * Ask the user to update their payment method after a failed invoice payment
+ * Invoices that don't belong to a subscription are ignored.
+ */
+export async function sendPaymentFailedEmail(
+  invoice: Stripe.Invoice,
+  options: SubscriptionEmailOptions = {}
+): Promise<EmailSendOutcome | "skipped"> {
+  const stripeSubscription = invoice.parent?.subscription_details?.subscription;
+  const stripeSubscriptionId =
+    typeof stripeSubscription === "string" ? stripeSubscription : stripeSubscription?.id;
+  if (!stripeSubscriptionId) return "skipped";
+
+  const [sub] = await db
+    .select({ referenceId: subscription.referenceId, plan: subscription.plan })
+    .from(subscription)
+    .where(eq(subscription.stripeSubscriptionId, stripeSubscriptionId))
+    .limit(1);
+
+  if (!sub) {
+    logger.warn("[Email] No subscription for failed invoice, skipping", {
+      invoiceId: invoice.id,
+      stripeSubscriptionId,
+    });
+    return "skipped";
+  }
+
+  const email = options.email ?? getEmailService();
+  return email.sendToUser(
+    sub.referenceId,
+    "payment_failed",
+    {
+      planDisplayName: planDisplayName(sub.plan),
+      amountDue: formatAmount(invoice.amount_due, invoice.currency),
+      invoiceUrl: invoice.hosted_invoice_url ?? null,
+    },
+    // One email per payment attempt
+    { dedupeKey: `payment_failed:${invoice.id}:${invoice.attempt_count}` }
+  );
+}
+
+/**
+ * Remind users whose trial ends soon that their subscription is about to start
+ *
+ * Each trial gets one reminder per threshold (TRIAL_REMINDER_DAYS). A trial that is already
+ * past several thresholds, e.g. when the job didn't run, only gets the closest one.
+ * Trials canceled before they end aren't reminded.
+ */
+export async function sendTrialEndingReminders(
+  options: SubscriptionEmailOptions & { now?: Date; reminderDays?: number[] } = {}
+): Promise<TrialReminderRun> {
+  const now = options.now ?? new Date();
+  const reminderDays = options.reminderDays ?? getTrialReminderDays();
+  const email = options.email ?? getEmailService();
+  const run: TrialReminderRun = { checked: 0, sent: 0, duplicate: 0, skipped: 0, failed: 0 };
+  if (reminderDays.length === 0) return run;
+
+  const trials = await db
+    .select({
+      id: subscription.id,
+      referenceId: subscription.referenceId,
+      plan: subscription.plan,
+      trialEnd: subscription.trialEnd,
+    })
+    .from(subscription)
+    .where(
+      and(
+        eq(subscription.status, "trialing"),
+        eq(subscription.cancelAtPeriodEnd, false),
+        gt(subscription.trialEnd, now),
+        lte(subscription.trialEnd, new Date(now.getTime() + Math.max(...reminderDays) * DAY_MS))
+      )
+    );
+
+  for (const trial of trials) {
+    const trialEnd = trial.trialEnd!;
+    const msLeft = trialEnd.getTime() - now.getTime();
+    // Smallest threshold the trial is within
+    const threshold = Math.min(...reminderDays.filter((days) => msLeft <= days * DAY_MS));
+    run.checked++;
+
+    try {
+      const outcome = await email.sendToUser(
+        trial.referenceId,
+        "trial_ending",
+        {
+          planDisplayName: planDisplayName(trial.plan),
+          daysLeft: Math.ceil(msLeft / DAY_MS),
+          trialEnd,
+        },
+        { dedupeKey: `trial_ending:${trial.id}:${threshold}` }
+      );
+      if (outcome === "sent") run.sent++;
+      else if (outcome === "duplicate") run.duplicate++;
+      else if (outcome === "skipped") run.skipped++;
+    } catch {
+      // Logged by the email service; the next run retries it
+      run.failed++;
+    }
+  }
+
+  logger.info("[Email] Trial reminders finished", { ...run });
+  return run;
+}
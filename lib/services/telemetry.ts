@@ -0,0 +1,51 @@
+/**
+ * Telemetry Service
+ *
+ * OpenTelemetry tracer and span helpers for application code.
+ * Only depends on @opentelemetry/api: until instrumentation.node.ts registers a tracer
+ * provider (OTEL_EXPORTER_OTLP_ENDPOINT set), every span is a no-op.
+ */
+
+import { SpanStatusCode, trace } from "@opentelemetry/api";
+import type { Attributes, Span, SpanOptions } from "@opentelemetry/api";
+
+export const tracer = trace.getTracer("axite-mcp-template");
+
+/**
+ * Mark a span as failed and attach the exception
+ */
+export function recordSpanError(span: Span, error: unknown): void {
+  if (error instanceof Error) {
+    span.recordException(error);
+    span.setStatus({ code: SpanStatusCode.ERROR, message: error.message });
+  } else {
+    span.setStatus({ code: SpanStatusCode.ERROR, message: String(error) });
+  }
+}
+
+/**
+ * Run `fn` inside an active span, ending it when `fn` settles
+ * Exceptions are recorded on the span and rethrown.
+ *
+ * @example
+ * ```typescript
+ * const items = await withSpan("items.load", { "items.limit": limit }, () => loadItems(limit));
+ * ```
+ */
+export function withSpan<T>(
+  name: string,
+  attributes: Attributes,
+  fn: (span: Span) => Promise<T>,
+  options: Omit<SpanOptions, "attributes"> = {}
+): Promise<T> {
+  return tracer.startActiveSpan(name, { ...options, attributes }, async (span) => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      recordSpanError(span, error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
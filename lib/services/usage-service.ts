@@ -0,0 +1,142 @@
+/**
+ * Usage Service
+ *
+ * Meters MCP tool calls in the `usage_event` table and enforces the monthly quota of
+ * each plan (`monthlyUsageUnits` in lib/utils/plan-limits.ts). Quotas reset at the start
+ * of every calendar month (UTC). With subscriptions disabled, usage is still recorded
+ * but not capped.
+ *
+ * The quota check and the usage record are separate queries, so concurrent calls can
+ * overshoot a quota by a few units - fine for metering, not for hard billing limits.
+ *
+ * Configuration (environment):
+ * - MCP_USAGE_METERING_ENABLED  Set to "false" to stop recording usage and enforcing quotas (default: enabled)
+ */
+
+import { and, count, eq, gte, sql, sum } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { usageEvent } from "@/lib/db/schema";
+import { FEATURES } from "@/lib/config/features";
+import { getMonthlyUsageQuota } from "@/lib/utils/plan-limits";
+import { getSubscriptionTier } from "@/lib/utils/subscription-helpers";
+
+export interface UsagePeriod {
+  start: Date;
+  /** Start of the next period, when the quota resets */
+  end: Date;
+}
+
+export interface QuotaCheck {
+  allowed: boolean;
+  used: number;
+  /** Units included in the plan (Infinity when uncapped) */
+  quota: number;
+  resetsAt: Date;
+}
+
+export interface ToolUsage {
+  tool: string;
+  units: number;
+  calls: number;
+}
+
+export interface UsageSummary {
+  /** Active plan name, or null for the free allowance */
+  plan: string | null;
+  used: number;
+  quota: number;
+  period: UsagePeriod;
+  byTool: ToolUsage[];
+}
+
+/**
+ * Calendar month (UTC) containing `now`
+ */
+export function getUsagePeriod(now: Date = new Date()): UsagePeriod {
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+  };
+}
+
+function isMeteringEnabled(): boolean {
+  return process.env.MCP_USAGE_METERING_ENABLED !== "false";
+}
+
+async function getPlanQuota(userId: string): Promise<{ plan: string | null; quota: number }> {
+  if (!FEATURES.SUBSCRIPTIONS) return { plan: null, quota: Infinity };
+
+  const plan = await getSubscriptionTier(userId);
+  return { plan, quota: getMonthlyUsageQuota(plan) };
+}
+
+async function getUsedUnits(userId: string, since: Date): Promise<number> {
+  const [row] = await db
+    .select({ units: sum(usageEvent.units) })
+    .from(usageEvent)
+    .where(and(eq(usageEvent.userId, userId), gte(usageEvent.createdAt, since)));
+
+  return Number(row?.units ?? 0);
+}
+
+/**
+ * Check whether a call costing `units` fits in the user's remaining quota
+ */
+export async function checkUsageQuota(userId: string, units: number): Promise<QuotaCheck> {
+  const period = getUsagePeriod();
+  const { quota } = isMeteringEnabled() ? await getPlanQuota(userId) : { quota: Infinity };
+
+  // Uncapped plans skip the usage query entirely
+  if (quota === Infinity) {
+    return { allowed: true, used: 0, quota, resetsAt: period.end };
+  }
+
+  const used = await getUsedUnits(userId, period.start);
+  return { allowed: used + units <= quota, used, quota, resetsAt: period.end };
+}
+
+/**
+ * Record a metered tool call
+ */
+export async function recordUsage(event: {
+  userId: string;
+  tool: string;
+  units: number;
+  requestId?: string;
+}): Promise<void> {
+  if (!isMeteringEnabled()) return;
+  await db.insert(usageEvent).values(event);
+}
+
+/**
+ * Usage for the current period, broken down by tool
+ */
+export async function getUsageSummary(userId: string): Promise<UsageSummary> {
+  const period = getUsagePeriod();
+  const { plan, quota } = await getPlanQuota(userId);
+
+  const rows = await db
+    .select({
+      tool: usageEvent.tool,
+      units: sum(usageEvent.units),
+      calls: count(),
+    })
+    .from(usageEvent)
+    .where(and(eq(usageEvent.userId, userId), gte(usageEvent.createdAt, period.start)))
+    .groupBy(usageEvent.tool)
+    .orderBy(sql`sum(${usageEvent.units}) desc`);
+
+  const byTool = rows.map((row) => ({
+    tool: row.tool,
+    units: Number(row.units ?? 0),
+    calls: row.calls,
+  }));
+
+  return {
+    plan,
+    used: byTool.reduce((total, row) => total + row.units, 0),
+    quota,
+    period,
+    byTool,
+  };
+}
@@ -101,7 +101,7 @@ export interface MCPToolResponse<
 
   /**
    * Structured data surfaced to the model and the component
-   * Must match the declared outputSchema when provided
+   * Must match the declared outputSchema when provided (validated by registerTools)
    * Keep this concise - the model reads it verbatim
    */
   structuredContent?: TStructuredContent;
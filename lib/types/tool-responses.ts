@@ -16,11 +16,24 @@ import { z } from "zod";
  */
 export interface AuthChallengeContent extends Record<string, unknown> {
   message: string;
+  /** OAuth error code (e.g. "insufficient_scope") for WWW-Authenticate challenges */
+  error?: string;
   featureName?: string;
   error_message?: string;
   pricingUrl?: string;
+  loginUrl?: string;
   baseUrl?: string;
   setupUrl?: string;
+  /** Entitlements the feature needs that the user's plan lacks (upgrade required) */
+  requiredEntitlements?: string[];
+  /** Plans with a configured Stripe price, shown in the plan table (subscription or upgrade required) */
+  purchasablePlans?: string[];
+  /** Plans and add-ons that would unlock the feature (upgrade required) */
+  upgradeOptions?: Array<{ name: string; displayName: string; type: "plan" | "add_on" }>;
+  /** Stripe status of a subscription whose payment failed (payment required) */
+  subscriptionStatus?: string;
+  /** When the subscription's grace period ended (payment required) */
+  graceEndsAt?: string;
 }
 
 /**
@@ -75,3 +88,69 @@ export type HelloWorldResponse = MCPToolResponse<
   HelloWorldContent,
   OpenAIResponseMetadata
 >;
+
+/**
+ * Usage Content
+ * Metered usage for the current period, returned by get_usage
+ */
+export interface UsageContent extends Record<string, unknown> {
+  /** Active plan name, or null for the free allowance */
+  plan: string | null;
+  used: number;
+  /** Units included in the plan, or null when uncapped */
+  quota: number | null;
+  periodStart: string;
+  periodEnd: string;
+  byTool: Array<{
+    tool: string;
+    units: number;
+    calls: number;
+  }>;
+}
+
+export type UsageResponse = MCPToolResponse<
+  UsageContent,
+  OpenAIResponseMetadata
+>;
+
+/**
+ * Subscription Content
+ * The user's plan, billing status and entitlements, returned by get_subscription
+ */
+export interface SubscriptionContent extends Record<string, unknown> {
+  /** Active plan name, or null without an active or trialing subscription */
+  plan: string | null;
+  planDisplayName: string | null;
+  status: string | null;
+  trialEnd: string | null;
+  periodEnd: string | null;
+  cancelAtPeriodEnd: boolean;
+  /** When access ends unless the failed payment is fixed (past_due/unpaid), or null */
+  graceEndsAt: string | null;
+  addOns: Array<{ name: string; displayName: string }>;
+  entitlements: Array<{ name: string; displayName: string }>;
+  /** Plans the user can subscribe or switch to */
+  availablePlans: Array<{ name: string; displayName: string; current: boolean }>;
+}
+
+export type SubscriptionResponse = MCPToolResponse<
+  SubscriptionContent,
+  OpenAIResponseMetadata
+>;
+
+/**
+ * Billing Link Content
+ * A Stripe-hosted page for the user to open, returned by the subscription management tools
+ */
+export interface BillingLinkContent extends Record<string, unknown> {
+  action: "checkout" | "change_plan" | "cancel" | "billing_portal";
+  url: string;
+  /** Plan being subscribed or switched to */
+  plan: string | null;
+  planDisplayName: string | null;
+}
+
+export type BillingLinkResponse = MCPToolResponse<
+  BillingLinkContent,
+  OpenAIResponseMetadata
+>;
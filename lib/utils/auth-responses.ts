@@ -7,6 +7,12 @@
 
 import type { AuthChallengeResponse } from "../types/tool-responses";
 import { createTextContent, createMCPResponse } from "../types/mcp-responses";
+import { getWidgetUri } from "@/lib/mcp/widgets";
+import { ADD_ONS, ENTITLEMENTS, PLANS, getPlan } from "@/lib/config/plans";
+import type { Entitlement, PlanName } from "@/lib/config/plans";
+import { getPurchasablePlans } from "@/lib/services/billing-service";
+import { getUpgradeOptions } from "./entitlements";
+import type { SubscriptionGrace } from "./subscription-helpers";
 import { baseURL } from "@/baseUrl";
 
 /**
@@ -28,11 +34,13 @@ export function createLoginPromptResponse(featureName?: string): AuthChallengeRe
     {
       structuredContent: {
         message: baseMessage,
+        error_message: "Login required",
+        loginUrl: `${baseURL}/login`,
       },
       _meta: {
         "openai/toolInvocation/invoking": "Checking authentication",
         "openai/toolInvocation/invoked": "Authentication required",
-        "openai/outputTemplate": "ui://widget/login.html",
+        "openai/outputTemplate": getWidgetUri("login"),
         "openai/widgetAccessible": false,
         "openai/resultCanProduceWidget": true,
       },
@@ -61,11 +69,12 @@ export function createSubscriptionRequiredResponse(featureName?: string, userId?
         featureName: featureName || "this feature",
         error_message: "Subscription required",
         pricingUrl: `${baseURL}/pricing`,
+        purchasablePlans: getPurchasablePlans(),
       },
       _meta: {
         "openai/toolInvocation/invoking": "Checking subscription",
         "openai/toolInvocation/invoked": "Subscription required",
-        "openai/outputTemplate": "ui://widget/subscription-required.html",
+        "openai/outputTemplate": getWidgetUri("subscription-required"),
         "openai/widgetAccessible": false,
         "openai/resultCanProduceWidget": true,
         userId,
@@ -75,6 +84,100 @@ export function createSubscriptionRequiredResponse(featureName?: string, userId?
   );
 }
 
+/**
+ * Create a response telling a subscriber which plan or add-on unlocks a feature
+ *
+ * Extends the subscription-required response (same widget and pricing link) with the
+ * missing entitlements and the plans and add-ons that include them.
+ *
+ * @param featureName - Name of the feature the user tried to use
+ * @param missing - Entitlements the user's plan lacks
+ * @param userId - User ID from the authenticated MCP session
+ * @param current - The user's plan and trial status, to leave their own plan out of the options
+ * @returns MCP tool response with subscription-required widget reference
+ */
+export function createUpgradeRequiredResponse(
+  featureName: string,
+  missing: Entitlement[],
+  userId?: string,
+  current?: { plan: PlanName | null; trialing: boolean }
+): AuthChallengeResponse {
+  const base = createSubscriptionRequiredResponse(featureName, userId);
+  const { plans, addOns } = getUpgradeOptions(missing);
+  const otherPlans = plans.filter((name) => name !== current?.plan);
+
+  const upgradeOptions = [
+    ...otherPlans.map((name) => ({ name, displayName: PLANS[name].displayName, type: "plan" as const })),
+    ...addOns.map((name) => ({ name, displayName: ADD_ONS[name].displayName, type: "add_on" as const })),
+  ];
+  const features = missing.map((entitlement) => ENTITLEMENTS[entitlement]).join(", ");
+  const unlockedBy = new Intl.ListFormat("en", { type: "disjunction" }).format(
+    upgradeOptions.map((option) => option.displayName)
+  );
+
+  let message = `${featureName} needs ${features}, available with ${unlockedBy}. Upgrade to continue.`;
+  if (current?.plan && current.trialing && plans.includes(current.plan)) {
+    // Trials can hold back some of the plan's entitlements (trialEntitlements)
+    message = `${featureName} needs ${features}, included in your ${PLANS[current.plan].displayName} plan once the trial ends.`;
+  } else if (upgradeOptions.length === 0) {
+    message = `${featureName} needs ${features}, which isn't available on any plan yet.`;
+  }
+
+  return {
+    ...base,
+    content: [createTextContent(message)],
+    structuredContent: {
+      ...base.structuredContent,
+      message,
+      error_message: "Upgrade required",
+      requiredEntitlements: missing,
+      upgradeOptions,
+    },
+    _meta: {
+      ...base._meta,
+      "openai/toolInvocation/invoked": "Upgrade required",
+    },
+  };
+}
+
+/**
+ * Create a response asking a subscriber whose payment failed to update their payment method
+ *
+ * Variant of the subscription-required response (same widget), for a past_due or unpaid
+ * subscription whose grace period (GRACE_PERIOD_DAYS) has ended. The widget links to the
+ * billing portal instead of offering plans.
+ *
+ * @param featureName - Name of the feature the user tried to use
+ * @param lapsed - The subscription and its expired grace period (getLapsedSubscription())
+ * @param userId - User ID from the authenticated MCP session
+ * @returns MCP tool response with subscription-required widget reference
+ */
+export function createSubscriptionGraceResponse(
+  featureName: string,
+  lapsed: { plan: string; grace: SubscriptionGrace },
+  userId?: string
+): AuthChallengeResponse {
+  const base = createSubscriptionRequiredResponse(featureName, userId);
+  const planDisplayName = getPlan(lapsed.plan)?.displayName ?? lapsed.plan;
+  const message = `The last payment for your ${planDisplayName} plan failed, so ${featureName} is unavailable. Update your payment method to continue.`;
+
+  return {
+    ...base,
+    content: [createTextContent(message)],
+    structuredContent: {
+      ...base.structuredContent,
+      message,
+      error_message: "Payment required",
+      subscriptionStatus: lapsed.grace.status,
+      graceEndsAt: lapsed.grace.endsAt.toISOString(),
+    },
+    _meta: {
+      ...base._meta,
+      "openai/toolInvocation/invoked": "Payment required",
+    },
+  };
+}
+
 /**
  * Create a response prompting the user to set up security (Passkey)
  *
@@ -85,8 +188,6 @@ export function createSubscriptionRequiredResponse(featureName?: string, userId?
  * @returns MCP tool response indicating security setup is required
  */
 export function createSecurityRequiredResponse(featureName?: string, userId?: string): AuthChallengeResponse {
-  console.log('[Security Required Response] Creating response for user:', userId);
-
   const baseMessage = featureName
     ? `To access ${featureName}, you must first enable a passkey.`
     : "This feature requires additional security. Please set up a passkey to continue.";
@@ -98,12 +199,12 @@ export function createSecurityRequiredResponse(featureName?: string, userId?: st
         message: "Security setup required",
         baseUrl: baseURL,
         featureName: featureName || "this feature",
-        setupUrl: `${baseURL}/onboarding`,
+        setupUrl: `${baseURL}/setup-security`,
       },
       _meta: {
         "openai/toolInvocation/invoking": "Checking security status",
         "openai/toolInvocation/invoked": "Security setup required",
-        "openai/outputTemplate": "ui://widget/security-required.html",
+        "openai/outputTemplate": getWidgetUri("security-required"),
         "openai/widgetAccessible": false,
         "openai/resultCanProduceWidget": true,
         userId,
@@ -0,0 +1,175 @@
+/**
+ * Entitlements
+ *
+ * Resolves the named features a user may use (ENTITLEMENTS in lib/config/plans.ts) from
+ * their plan, trial status and add-ons. Tools gate a feature with
+ * `auth: { entitlement: "exports" }`, which requireAuth() checks before the handler runs.
+ */
+
+import { eq } from "drizzle-orm";
+import type Stripe from "stripe";
+import { db } from "@/lib/db";
+import { subscriptionAddOn, user } from "@/lib/db/schema";
+import { ADD_ONS, ADD_ON_NAMES, PLAN_NAMES, PLANS, getAddOnByPriceId, isPlanName } from "@/lib/config/plans";
+import type { AddOnName, Entitlement, PlanDefinition, PlanName } from "@/lib/config/plans";
+import { logger } from "@/lib/services/logger-service";
+import { stripeClient } from "@/lib/services/stripe-client";
+import { getUserSubscription } from "./subscription-helpers";
+
+export interface UserEntitlements {
+  /** Active plan, or null without an active or trialing subscription */
+  plan: PlanName | null;
+  trialing: boolean;
+  addOns: AddOnName[];
+  entitlements: Set<Entitlement>;
+}
+
+/**
+ * Plans and add-ons that would unlock a set of entitlements, cheapest first
+ */
+export interface UpgradeOptions {
+  plans: PlanName[];
+  addOns: AddOnName[];
+}
+
+/**
+ * Stripe API calls the add-on sync needs - a Stripe client, or a stub in tests
+ */
+export interface AddOnSyncClient {
+  subscriptions: {
+    retrieve(id: string): Promise<Stripe.Subscription>;
+  };
+}
+
+// Add-on items stay billed while the subscription is in these states
+// (access during a failed payment is limited by the subscription's grace period)
+const ADD_ON_STATUSES: Stripe.Subscription.Status[] = ["active", "trialing", "past_due", "unpaid"];
+
+async function getActiveAddOns(userId: string): Promise<AddOnName[]> {
+  const rows = await db
+    .select({ addOn: subscriptionAddOn.addOn })
+    .from(subscriptionAddOn)
+    .where(eq(subscriptionAddOn.userId, userId));
+
+  return ADD_ON_NAMES.filter((name) => rows.some((row) => row.addOn === name));
+}
+
+/**
+ * Resolve a user's plan, trial and add-ons into their entitlements
+ */
+export async function getUserEntitlements(userId: string): Promise<UserEntitlements> {
+  const subscription = await getUserSubscription(userId);
+  const plan = subscription?.plan;
+  if (!isPlanName(plan)) {
+    return { plan: null, trialing: false, addOns: [], entitlements: new Set() };
+  }
+
+  const definition: PlanDefinition = PLANS[plan];
+  const trialing = subscription?.status === "trialing";
+  const addOns = await getActiveAddOns(userId);
+
+  const entitlements = new Set<Entitlement>(
+    trialing ? (definition.trialEntitlements ?? definition.entitlements) : definition.entitlements
+  );
+  for (const addOn of addOns) {
+    ADD_ONS[addOn].entitlements.forEach((entitlement) => entitlements.add(entitlement));
+  }
+
+  return { plan, trialing, addOns, entitlements };
+}
+
+/**
+ * Entitlements from `required` that the user doesn't have
+ */
+export async function getMissingEntitlements(
+  userId: string,
+  required: readonly Entitlement[]
+): Promise<Entitlement[]> {
+  const { entitlements } = await getUserEntitlements(userId);
+  return required.filter((entitlement) => !entitlements.has(entitlement));
+}
+
+export async function hasEntitlement(userId: string, entitlement: Entitlement): Promise<boolean> {
+  const missing = await getMissingEntitlements(userId, [entitlement]);
+  return missing.length === 0;
+}
+
+/**
+ * Plans that include every entitlement in `required`, and add-ons that grant them
+ */
+export function getUpgradeOptions(required: readonly Entitlement[]): UpgradeOptions {
+  const covers = (granted: readonly Entitlement[]) =>
+    required.every((entitlement) => granted.includes(entitlement));
+
+  return {
+    plans: PLAN_NAMES.filter((name) => covers(PLANS[name].entitlements)),
+    addOns: ADD_ON_NAMES.filter((name) => covers(ADD_ONS[name].entitlements)),
+  };
+}
+
+/**
+ * Mirror the add-on items of a Stripe subscription into subscription_add_on
+ * Called from the Stripe webhook (lib/auth/index.ts) for every subscription event.
+ *
+ * The subscription is fetched again rather than read from the event: events can arrive out
+ * of order, and replayed events (`pnpm stripe:events replay`) are old, so their payload could
+ * restore add-ons the user has since removed.
+ *
+ * @param eventSubscription - The subscription in the event's payload
+ */
+export async function syncSubscriptionAddOns(
+  eventSubscription: Stripe.Subscription,
+  client: AddOnSyncClient | null = stripeClient
+): Promise<void> {
+  if (!client) {
+    throw new Error("STRIPE_SECRET_KEY is required to sync subscription add-ons");
+  }
+  const stripeSubscription = await client.subscriptions.retrieve(eventSubscription.id);
+
+  const customerId =
+    typeof stripeSubscription.customer === "string"
+      ? stripeSubscription.customer
+      : stripeSubscription.customer.id;
+
+  const [owner] = await db
+    .select({ id: user.id })
+    .from(user)
+    .where(eq(user.stripeCustomerId, customerId))
+    .limit(1);
+
+  if (!owner) {
+    logger.warn("[Entitlements] No user for Stripe customer, skipping add-on sync", { customerId });
+    return;
+  }
+
+  const items = ADD_ON_STATUSES.includes(stripeSubscription.status)
+    ? stripeSubscription.items.data.flatMap((item) => {
+        const addOn = getAddOnByPriceId(item.price.id);
+        return addOn ? [{ addOn, itemId: item.id }] : [];
+      })
+    : [];
+
+  await db.transaction(async (tx) => {
+    await tx
+      .delete(subscriptionAddOn)
+      .where(eq(subscriptionAddOn.stripeSubscriptionId, stripeSubscription.id));
+
+    if (items.length > 0) {
+      await tx.insert(subscriptionAddOn).values(
+        items.map(({ addOn, itemId }) => ({
+          userId: owner.id,
+          addOn,
+          stripeSubscriptionId: stripeSubscription.id,
+          stripeSubscriptionItemId: itemId,
+        }))
+      );
+    }
+  });
+
+  logger.info("[Entitlements] Synced subscription add-ons", {
+    userId: owner.id,
+    stripeSubscriptionId: stripeSubscription.id,
+    addOns: items.map(({ addOn }) => addOn),
+  });
+}
+
@@ -85,6 +85,7 @@ const RECOMMENDED_ENV_VARS = [
   // { name: "YOUR_SERVICE_API_KEY", description: "Your service API key" },
   { name: "STRIPE_SECRET_KEY", description: "Stripe API secret key (if using subscriptions)" },
   { name: "STRIPE_WEBHOOK_SECRET", description: "Stripe webhook signing secret (if using subscriptions)" },
+  { name: "RESEND_API_KEY", description: "Resend API key (transactional emails are not delivered without it)" },
 ] as const;
 
 /**
@@ -3,25 +3,44 @@
  *
  * DRY helpers to check authentication requirements in MCP tools.
  * Reduces boilerplate and ensures consistency across all tools.
+ *
+ * Tools defined with defineTool() don't call these directly: their `auth`
+ * policy is enforced by registerTools() in lib/mcp/registry.ts.
  */
 
 import type { AuthChallengeResponse } from "@/lib/types/tool-responses";
-import { hasActiveSubscription } from "./subscription-helpers";
+import { getLapsedSubscription, hasActiveSubscription } from "./subscription-helpers";
+import { getUserEntitlements } from "./entitlements";
 import {
   createLoginPromptResponse,
   createSubscriptionRequiredResponse,
+  createSubscriptionGraceResponse,
   createSecurityRequiredResponse,
+  createUpgradeRequiredResponse,
 } from "./auth-responses";
+import {
+  createAuthChallengeResponse,
+  PROTECTED_RESOURCE_METADATA_URL,
+} from "./mcp-response-helpers";
 import { db } from "@/lib/db";
 import { passkey } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
 import { FEATURES } from "@/lib/config/features";
+import type { Entitlement } from "@/lib/config/plans";
+import { getScopeDescription } from "@/lib/auth/scopes";
+import type { OAuthScope } from "@/lib/auth/scopes";
+import { logger } from "@/lib/services/logger-service";
+import { withSpan } from "@/lib/services/telemetry";
 
-interface AuthRequirements {
+export interface AuthRequirements {
   /** Require active subscription (default: true if subscriptions enabled) */
   requireSubscription?: boolean;
   /** Require passkey to be enabled (default: false) */
   requireSecurity?: boolean;
+  /** OAuth scopes the access token must have been granted (default: none) */
+  requireScopes?: OAuthScope[];
+  /** Entitlements the user's plan, trial or add-ons must include (default: none; only checked if subscriptions enabled) */
+  requireEntitlement?: Entitlement | Entitlement[];
   /** Custom validation function (optional) */
   customCheck?: (userId: string) => Promise<{ valid: boolean; error?: any }>;
 }
@@ -55,6 +74,16 @@ interface AuthRequirements {
  *   // ... actual tool logic
  * });
  *
+ * // Pro feature: tells other subscribers which plan or add-on unlocks it
+ * server.registerTool("export_items", config, async () => {
+ *   const authCheck = await requireAuth(session, "exports", {
+ *     requireEntitlement: "exports",
+ *   });
+ *   if (authCheck) return authCheck;
+ *
+ *   // ... actual tool logic
+ * });
+ *
  * // Auth with custom validation
  * server.registerTool("custom_tool", config, async () => {
  *   const authCheck = await requireAuth(session, "custom feature", {
@@ -70,31 +99,69 @@ interface AuthRequirements {
  * ```
  */
 export async function requireAuth(
-  session: { userId: string } | null | undefined,
+  session: { userId: string; scopes?: string[] } | null | undefined,
   featureName: string,
   options: AuthRequirements = {}
+): Promise<AuthChallengeResponse | null> {
+  return withSpan("auth.requireAuth", { "auth.feature": featureName }, async (span) => {
+    const challenge = await checkAuthRequirements(session, featureName, options);
+    span.setAttribute("auth.granted", !challenge);
+    return challenge;
+  });
+}
+
+/**
+ * Run the requireAuth() checks in order, stopping at the first that fails
+ */
+async function checkAuthRequirements(
+  session: { userId: string; scopes?: string[] } | null | undefined,
+  featureName: string,
+  options: AuthRequirements
 ): Promise<AuthChallengeResponse | null> {
   const {
     requireSubscription = FEATURES.SUBSCRIPTIONS, // Default to true only if subscriptions enabled
     requireSecurity = false,
+    requireScopes = [],
+    requireEntitlement = [],
     customCheck,
   } = options;
+  const requiredEntitlements = ([] as Entitlement[]).concat(requireEntitlement);
+
+  const log = logger.child({ feature: featureName, userId: session?.userId });
 
-  console.log(`[requireAuth] Checking auth for ${featureName}:`, {
+  log.debug(`[requireAuth] Checking auth for ${featureName}`, {
     hasSession: !!session,
-    userId: session?.userId,
     requireSubscription,
     requireSecurity,
+    requireScopes,
+    requiredEntitlements,
     subscriptionsEnabled: FEATURES.SUBSCRIPTIONS,
   });
 
   // Check 1: Session exists (OAuth authentication)
   if (!session) {
-    console.log(`[requireAuth] No session, returning login prompt`);
+    log.debug(`[requireAuth] No session, returning login prompt`);
     return createLoginPromptResponse(featureName);
   }
 
-  // Check 2: Security (Passkey) enabled (if required)
+  // Check 2: Access token grants the required OAuth scopes
+  const missingScopes = requireScopes.filter(
+    (scope) => !session.scopes?.includes(scope)
+  );
+  if (missingScopes.length > 0) {
+    log.info(`[requireAuth] Missing scopes, returning auth challenge`, {
+      missingScopes,
+      grantedScopes: session.scopes,
+    });
+    return createAuthChallengeResponse(
+      PROTECTED_RESOURCE_METADATA_URL,
+      `${featureName} requires additional permissions: ${missingScopes.map(getScopeDescription).join(", ")}`,
+      "insufficient_scope",
+      requireScopes
+    );
+  }
+
+  // Check 3: Security (Passkey) enabled (if required)
   if (requireSecurity) {
     try {
       // Check Passkeys from database
@@ -105,63 +172,74 @@ export async function requireAuth(
         .limit(1);
       const hasPasskey = passkeys.length > 0;
 
-      console.log(`[requireAuth] Security check:`, {
-        required: true,
-        hasPasskey,
-        userId: session.userId,
-      });
+      log.debug(`[requireAuth] Security check`, { required: true, hasPasskey });
 
       if (!hasPasskey) {
-        console.log(
-          `[requireAuth] Passkey not enabled, returning Security Required response`
-        );
+        log.info(`[requireAuth] Passkey not enabled, returning Security Required response`);
         return createSecurityRequiredResponse(featureName, session.userId);
       }
     } catch (error) {
-      console.error(`[requireAuth] Error checking security status:`, error);
+      log.error(`[requireAuth] Error checking security status`, { error });
       // Fail closed
       return createSecurityRequiredResponse(featureName, session.userId);
     }
   }
 
-  // Check 3: Active subscription (if required and feature enabled)
+  // Check 4: Active subscription (if required and feature enabled)
   if (requireSubscription && FEATURES.SUBSCRIPTIONS) {
     const hasSubscription = await hasActiveSubscription(session.userId);
-    console.log(`[requireAuth] Subscription check:`, {
-      required: true,
-      hasSubscription,
-    });
+    log.debug(`[requireAuth] Subscription check`, { required: true, hasSubscription });
 
     if (!hasSubscription) {
-      console.log(
-        `[requireAuth] No subscription, returning subscription required response`
-      );
+      // A failed payment past its grace period needs a new payment method, not a new plan
+      const lapsed = await getLapsedSubscription(session.userId);
+      if (lapsed) {
+        log.info(`[requireAuth] Grace period ended, returning payment required response`, {
+          status: lapsed.status,
+          graceEndsAt: lapsed.grace.endsAt,
+        });
+        return createSubscriptionGraceResponse(featureName, lapsed, session.userId);
+      }
+
+      log.info(`[requireAuth] No subscription, returning subscription required response`);
       return createSubscriptionRequiredResponse(featureName, session.userId);
     }
   }
 
-  // Check 4: Custom validation (if provided)
+  // Check 5: Plan includes the feature (if required and subscriptions enabled)
+  if (requiredEntitlements.length > 0 && FEATURES.SUBSCRIPTIONS) {
+    const current = await getUserEntitlements(session.userId);
+    const missing = requiredEntitlements.filter((entitlement) => !current.entitlements.has(entitlement));
+    log.debug(`[requireAuth] Entitlement check`, { requiredEntitlements, missing });
+
+    if (missing.length > 0) {
+      log.info(`[requireAuth] Missing entitlements, returning upgrade required response`, { missing });
+      return createUpgradeRequiredResponse(featureName, missing, session.userId, current);
+    }
+  }
+
+  // Check 6: Custom validation (if provided)
   if (customCheck) {
     try {
       const result = await customCheck(session.userId);
-      console.log(`[requireAuth] Custom check:`, {
+      log.debug(`[requireAuth] Custom check`, {
         valid: result.valid,
         error: result.error,
       });
 
       if (!result.valid) {
-        console.log(`[requireAuth] Custom check failed`);
+        log.info(`[requireAuth] Custom check failed`);
         // TEMPLATE: Create a custom error response based on your needs
         // For now, return a generic login prompt
         return createLoginPromptResponse(featureName);
       }
     } catch (error) {
-      console.error(`[requireAuth] Error in custom check:`, error);
+      log.error(`[requireAuth] Error in custom check`, { error });
       return createLoginPromptResponse(featureName);
     }
   }
 
   // All checks passed
-  console.log(`[requireAuth] All checks passed for ${featureName}`);
+  log.debug(`[requireAuth] All checks passed for ${featureName}`);
   return null;
 }
@@ -11,8 +11,14 @@ import type { AuthChallengeContent } from "@/lib/types/tool-responses";
 import { createTextContent } from "@/lib/types/mcp-responses";
 import { createUIResource } from '@mcp-ui/server';
 import type { CreateUIResourceOptions } from '@mcp-ui/server';
+import { getWidgetUrl, parseWidgetUri } from "@/lib/mcp/widgets";
 import { baseURL } from "@/baseUrl";
 
+/**
+ * OAuth Protected Resource Metadata URL (RFC 9728) advertised in WWW-Authenticate challenges
+ */
+export const PROTECTED_RESOURCE_METADATA_URL = `${baseURL}/.well-known/oauth-protected-resource`;
+
 /**
  * Creates a generic error response that matches AuthChallengeContent structure
  * This allows error responses to be compatible with tool response union types
@@ -46,16 +52,19 @@ export const createSuccessResponse = <T extends Record<string, unknown>>(
     ...otherMeta
   } = meta || {};
 
-  // If there's an outputTemplate, create UIResource with Apps SDK adapter
-  if (outputTemplate) {
-    const widgetPath = outputTemplate.replace('ui://widget/', '').replace('.html', '');
+  const widget = outputTemplate ? parseWidgetUri(outputTemplate) : null;
+  if (outputTemplate && !widget) {
+    throw new Error(`Invalid outputTemplate "${outputTemplate}" - use getWidgetUri() from lib/mcp/widgets`);
+  }
 
+  // If there's an outputTemplate, create UIResource with Apps SDK adapter
+  if (outputTemplate && widget) {
     // Use @mcp-ui/server to create resource with Apps SDK adapter
     const resourceOptions: CreateUIResourceOptions = {
-      uri: outputTemplate.replace('.html', '') as `ui://${string}`,
+      uri: outputTemplate as `ui://${string}`,
       content: {
         type: 'externalUrl',
-        iframeUrl: `${baseURL}/widgets/${widgetPath}`,
+        iframeUrl: getWidgetUrl(widget),
       },
       encoding: 'text',
       adapters: {
@@ -89,17 +98,86 @@ export const createSuccessResponse = <T extends Record<string, unknown>>(
 
 /**
  * Creates an authentication challenge response
+ * The `mcp/www_authenticate` metadata makes ChatGPT start (or upgrade) the OAuth flow
+ *
+ * @param error - "invalid_token" when no valid token was sent, "insufficient_scope" when scopes are missing
+ * @param scopes - Scopes needed to call the tool, advertised so the client can request them
  */
 export const createAuthChallengeResponse = (
   resourceMetadataUrl: string,
-  errorDescription: string = "Authentication required"
-): MCPToolResponse<{ error: string }, OpenAIResponseMetadata> => ({
-  content: [createTextContent(errorDescription)],
-  structuredContent: {
-    error: "insufficient_scope"
-  },
-  isError: true,
-  _meta: {
-    "mcp/www_authenticate": `Bearer resource_metadata="${resourceMetadataUrl}", error="insufficient_scope", error_description="${errorDescription}"`
-  }
-});
+  errorDescription: string = "Authentication required",
+  error: "invalid_token" | "insufficient_scope" = "insufficient_scope",
+  scopes?: string[]
+): MCPToolResponse<AuthChallengeContent, OpenAIResponseMetadata> => {
+  const scopeParam = scopes?.length ? `, scope="${scopes.join(" ")}"` : "";
+
+  return {
+    content: [createTextContent(errorDescription)],
+    structuredContent: {
+      message: errorDescription,
+      error
+    },
+    isError: true,
+    _meta: {
+      "mcp/www_authenticate": `Bearer resource_metadata="${resourceMetadataUrl}", error="${error}", error_description="${errorDescription}"${scopeParam}`
+    }
+  };
+};
+
+/**
+ * Creates a rate limit response
+ * Tells the model when to retry; `mcp/rateLimit` carries the same numbers for clients and widgets
+ *
+ * @param retryAfterMs - Milliseconds until the next call is allowed
+ */
+export const createRateLimitResponse = (
+  featureName: string,
+  limit: number,
+  retryAfterMs: number
+): MCPToolResponse<AuthChallengeContent, OpenAIResponseMetadata> => {
+  const retryAfterSeconds = Math.max(Math.ceil(retryAfterMs / 1000), 1);
+  const message = `Rate limit exceeded for ${featureName}. Try again in ${retryAfterSeconds} seconds.`;
+
+  return {
+    content: [createTextContent(message)],
+    structuredContent: {
+      message,
+      error: "rate_limited",
+      featureName,
+      retryAfterSeconds,
+    },
+    isError: true,
+    _meta: {
+      "openai/toolInvocation/invoked": "Rate limited",
+      "mcp/rateLimit": { limit, remaining: 0, retryAfterSeconds },
+    },
+  };
+};
+
+/**
+ * Creates a quota exceeded response
+ * Returned when a call would take the user past their plan's monthly usage units
+ */
+export const createQuotaExceededResponse = (
+  featureName: string,
+  usage: { used: number; quota: number; resetsAt: Date }
+): MCPToolResponse<AuthChallengeContent, OpenAIResponseMetadata> => {
+  const resetsAt = usage.resetsAt.toISOString();
+  const message = `Monthly usage quota reached for ${featureName} (${usage.used} of ${usage.quota} units used). It resets on ${resetsAt.slice(0, 10)}; upgrade your plan for a higher quota.`;
+
+  return {
+    content: [createTextContent(message)],
+    structuredContent: {
+      message,
+      error: "quota_exceeded",
+      featureName,
+      // Landing page, where billing returns users to (lib/services/billing-service.ts)
+      pricingUrl: `${baseURL}/`,
+    },
+    isError: true,
+    _meta: {
+      "openai/toolInvocation/invoked": "Quota reached",
+      "mcp/usage": { used: usage.used, quota: usage.quota, resetsAt },
+    },
+  };
+};
@@ -1,42 +1,47 @@
 /**
  * Plan Limits Utility
  *
- * Single source of truth for subscription plan limits.
- * Consolidates limits previously defined in multiple places:
- * - lib/auth/index.ts
- * - app/connect-bank/actions.ts
- * - lib/utils/subscription-helpers.ts
+ * Limit lookups and display helpers for subscription plans.
+ * Plans and their limits are defined once in the plan catalog (lib/config/plans.ts).
  */
 
-export interface PlanLimits {
-  maxAccounts: number;
+import { FREE_LIMITS, PLAN_NAMES, PLANS, getPlan, isPlanName } from '@/lib/config/plans';
+import type { PlanLimitValues, PlanName } from '@/lib/config/plans';
+
+export type { PlanName } from '@/lib/config/plans';
+
+export interface PlanLimits extends PlanLimitValues {
   name: string;
   displayName: string;
 }
 
 /**
- * Subscription plan limits
- * IMPORTANT: This is the single source of truth for plan limits
+ * Subscription plan limits, keyed by plan name
+ */
+export const PLAN_LIMITS = Object.fromEntries(
+  PLAN_NAMES.map((name) => [
+    name,
+    { ...PLANS[name].limits, name, displayName: PLANS[name].displayName },
+  ])
+) as Record<PlanName, PlanLimits>;
+
+/**
+ * Tool calls per user, per tool, per minute for users without a paid plan
+ * (free tier, or every user when subscriptions are disabled)
  */
-export const PLAN_LIMITS = {
-  basic: {
-    maxAccounts: 3,
-    name: 'basic',
-    displayName: 'Basic',
-  },
-  pro: {
-    maxAccounts: 10,
-    name: 'pro',
-    displayName: 'Pro',
-  },
-  enterprise: {
-    maxAccounts: Infinity,
-    name: 'enterprise',
-    displayName: 'Enterprise',
-  },
-} as const;
+export const DEFAULT_TOOL_CALLS_PER_MINUTE = FREE_LIMITS.toolCallsPerMinute;
 
-export type PlanName = keyof typeof PLAN_LIMITS;
+/**
+ * Tool cost units per calendar month for users without a paid plan
+ */
+export const DEFAULT_MONTHLY_USAGE_UNITS = FREE_LIMITS.monthlyUsageUnits;
+
+/**
+ * Monthly usage quota for a plan (users without a plan get the free allowance)
+ */
+export function getMonthlyUsageQuota(planName: string | null): number {
+  return (getPlan(planName)?.limits ?? FREE_LIMITS).monthlyUsageUnits;
+}
 
 /**
  * Get maximum accounts allowed for a plan
@@ -45,9 +50,7 @@ export type PlanName = keyof typeof PLAN_LIMITS;
  * @returns Maximum number of accounts allowed, or null if no valid plan
  */
 export function getMaxAccountsForPlan(planName: string | null): number | null {
-  if (!planName) return null;
-  const plan = PLAN_LIMITS[planName as PlanName];
-  return plan?.maxAccounts ?? null;
+  return getPlan(planName)?.limits.maxAccounts ?? null;
 }
 
 /**
@@ -57,9 +60,7 @@ export function getMaxAccountsForPlan(planName: string | null): number | null {
  * @returns Plan limits and metadata, or null if no valid plan
  */
 export function getPlanMetadata(planName: string | null): PlanLimits | null {
-  if (!planName) return null;
-  const plan = PLAN_LIMITS[planName as PlanName];
-  return plan ?? null;
+  return isPlanName(planName) ? PLAN_LIMITS[planName] : null;
 }
 
 /**
@@ -85,12 +86,12 @@ export function isWithinAccountLimit(
  * @returns Recommended plan name
  */
 export function getRecommendedPlan(currentCount: number): PlanName {
-  if (currentCount <= PLAN_LIMITS.basic.maxAccounts) {
-    return 'basic';
-  } else if (currentCount <= PLAN_LIMITS.pro.maxAccounts) {
-    return 'pro';
-  }
-  return 'enterprise';
+  // Flat-priced plans in catalog order, cheapest first
+  const flatPlans = PLAN_NAMES.filter((name) => !getPlan(name)?.metered);
+  return (
+    flatPlans.find((name) => currentCount <= PLANS[name].limits.maxAccounts) ??
+    flatPlans[flatPlans.length - 1]
+  );
 }
 
 /**
@@ -100,6 +101,13 @@ export function getAllPlanLimits(): Record<PlanName, PlanLimits> {
   return PLAN_LIMITS;
 }
 
+/**
+ * Format a usage quota for display
+ */
+export function formatUsageQuota(units: number): string {
+  return units === Infinity ? 'Unlimited' : units.toLocaleString('en-US');
+}
+
 /**
  * Format account limit for display
  * Handles Infinity and null gracefully
@@ -0,0 +1,33 @@
+/**
+ * Request Correlation IDs
+ *
+ * middleware.ts gives every request an `X-Request-Id` (accepting the caller's when valid),
+ * so a widget fetch, a server action, an MCP tool call and an OAuth log line for the same
+ * user action share one id. Edge-safe: used by middleware as well as route handlers.
+ */
+
+export const REQUEST_ID_HEADER = "x-request-id";
+
+/**
+ * `_meta` key carrying the request id on MCP tool results
+ * The widget bootstrap (src/components/shared/next-chat-sdk-bootstrap.tsx) forwards it on fetches.
+ */
+export const REQUEST_ID_META_KEY = "mcp/requestId";
+
+// Caller-supplied ids end up in logs and headers - keep them short and printable
+const VALID_REQUEST_ID = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Request id sent by the caller, if present and valid
+ */
+export function readRequestId(headers: Headers): string | undefined {
+  const requestId = headers.get(REQUEST_ID_HEADER);
+  return requestId && VALID_REQUEST_ID.test(requestId) ? requestId : undefined;
+}
+
+/**
+ * The caller's request id, or a new one
+ */
+export function resolveRequestId(headers: Headers): string {
+  return readRequestId(headers) ?? crypto.randomUUID();
+}
@@ -7,15 +7,66 @@
 import { db } from "@/lib/db";
 import { subscription } from "@/lib/db/schema";
 import { eq, and, inArray, desc, count as drizzleCount } from "drizzle-orm";
+import { logger } from "@/lib/services/logger-service";
+import { getPlanMetadata } from "@/lib/utils/plan-limits";
+import { GRACE_PERIOD_DAYS } from "@/lib/config/plans";
+import type { GracePeriodStatus } from "@/lib/config/plans";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Statuses that can give access to the plan; past_due and unpaid only during their grace period
+const ACCESS_STATUSES = ["active", "trialing", ...Object.keys(GRACE_PERIOD_DAYS)];
+
+export interface SubscriptionGrace {
+  status: GracePeriodStatus;
+  /** When access to the plan ends */
+  endsAt: Date;
+  expired: boolean;
+}
+
+/**
+ * Grace period of a subscription whose payment failed (GRACE_PERIOD_DAYS in lib/config/plans.ts)
+ * Returns null for statuses without one. A subscription without a billing period has no grace left.
+ */
+export function getSubscriptionGrace(
+  sub: { status: string | null; periodStart: Date | null },
+  now: Date = new Date()
+): SubscriptionGrace | null {
+  if (!sub.status || !Object.hasOwn(GRACE_PERIOD_DAYS, sub.status)) return null;
+
+  const status = sub.status as GracePeriodStatus;
+  const endsAt = sub.periodStart
+    ? new Date(sub.periodStart.getTime() + GRACE_PERIOD_DAYS[status] * DAY_MS)
+    : now;
+  return { status, endsAt, expired: endsAt.getTime() <= now.getTime() };
+}
+
+/**
+ * User's subscriptions in ACCESS_STATUSES, latest billing period first
+ */
+async function getCandidateSubscriptions(userId: string) {
+  return db
+    .select()
+    .from(subscription)
+    .where(
+      and(
+        eq(subscription.referenceId, userId),
+        inArray(subscription.status, ACCESS_STATUSES)
+      )
+    )
+    .orderBy(desc(subscription.periodStart));
+}
 
 /**
  * Get user's subscription from Better Auth Stripe plugin
  *
- * Queries the database directly since we're already on the server side with a validated userId.
- * The auth.api methods are designed for external API calls with session cookies.
+ * Returns the subscription giving the user access to their plan: active, trialing, or past_due/unpaid
+ * within its grace period. Queries the database directly since we're already on the server side
+ * with a validated userId. The auth.api methods are designed for external API calls with session cookies.
  */
-export async function getUserSubscription(userId: string) {
-  console.log('[Subscription] Querying database for user subscription...');
+export async function getUserSubscription(userId: string, now: Date = new Date()) {
+  const log = logger.child({ userId });
+  log.debug('[Subscription] Querying database for user subscription');
 
   try {
     // First, check ALL subscriptions for this user (any status)
@@ -24,8 +75,7 @@ export async function getUserSubscription(userId: string) {
       .from(subscription)
       .where(eq(subscription.referenceId, userId));
 
-    console.log('[Subscription] All subscriptions for user (any status):', {
-      userId,
+    log.debug('[Subscription] All subscriptions for user (any status)', {
       count: allSubs.length,
       subscriptions: allSubs,
       statuses: allSubs.map(s => s.status)
@@ -36,50 +86,61 @@ export async function getUserSubscription(userId: string) {
       .select({ total: drizzleCount() })
       .from(subscription);
 
-    console.log('[Subscription] Total subscriptions in database:', totalSubsCount);
+    log.debug('[Subscription] Total subscriptions in database', totalSubsCount);
 
-    // Query for active subscriptions for this user
-    const result = await db
-      .select()
-      .from(subscription)
-      .where(
-        and(
-          eq(subscription.referenceId, userId),
-          inArray(subscription.status, ['active', 'trialing'])
-        )
-      )
-      .orderBy(desc(subscription.periodStart))
-      .limit(1);
+    // Query for subscriptions that can give access, then drop those past their grace period
+    const result = (await getCandidateSubscriptions(userId)).filter(
+      (sub) => !getSubscriptionGrace(sub, now)?.expired
+    );
 
-    console.log('[Subscription] Active subscription query result:', {
-      userId,
+    log.debug('[Subscription] Active subscription query result', {
       count: result.length,
       hasSubscription: !!result[0],
       subscription: result[0]
     });
 
+    const grace = result[0] && getSubscriptionGrace(result[0], now);
+    if (grace) {
+      log.debug('[Subscription] Payment failed, subscription in grace period', {
+        status: grace.status,
+        graceEndsAt: grace.endsAt,
+      });
+    }
+
     return result[0] || null;
   } catch (error) {
-    console.error(`[Subscription] Error fetching subscription for userId: ${userId}`, error);
+    log.error('[Subscription] Error fetching subscription', { error });
+    return null;
+  }
+}
+
+/**
+ * Get the subscription that lost access because its grace period ended
+ * Returns null when the user still has access (see getUserSubscription) or never subscribed.
+ */
+export async function getLapsedSubscription(userId: string, now: Date = new Date()) {
+  const subs = await getCandidateSubscriptions(userId);
+  if (subs.some((sub) => !getSubscriptionGrace(sub, now)?.expired)) {
     return null;
   }
+
+  const lapsed = subs[0];
+  const grace = lapsed && getSubscriptionGrace(lapsed, now);
+  return lapsed && grace ? { ...lapsed, grace } : null;
 }
 
 /**
  * Check if user has an active subscription.
- * Returns the subscription object if status is 'active' or 'trialing', otherwise null.
+ * Returns the subscription object if status is 'active' or 'trialing', or 'past_due'/'unpaid'
+ * within the grace period, otherwise null.
  */
 export async function hasActiveSubscription(userId: string) {
-  const subscription = await getUserSubscription(userId);
-  if (subscription?.status === 'active' || subscription?.status === 'trialing') {
-    return subscription;
-  }
-  return null;
+  return getUserSubscription(userId);
 }
 
 /**
  * Get user's subscription tier (plan name)
- * Returns 'basic', 'pro', 'enterprise', or null if no active subscription
+ * Returns a plan name from the plan catalog (lib/config/plans.ts), or null if no active subscription
  */
 export async function getSubscriptionTier(userId: string): Promise<string | null> {
   const subscription = await getUserSubscription(userId);
@@ -91,14 +152,7 @@ export async function getSubscriptionTier(userId: string): Promise<string | null
  */
 export async function getSubscriptionLimits(userId: string) {
   const tier = await getSubscriptionTier(userId);
-
-  const LIMITS = {
-    basic: { maxAccounts: 3 },
-    pro: { maxAccounts: 10 },
-    enterprise: { maxAccounts: Infinity }
-  };
-
-  return tier ? LIMITS[tier as keyof typeof LIMITS] : null;
+  return getPlanMetadata(tier);
 }
 
 /**
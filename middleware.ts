@@ -1,8 +1,12 @@
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
 import { getSessionCookie } from "better-auth/cookies";
+import { REQUEST_ID_HEADER, resolveRequestId } from "@/lib/utils/request-id";
 
 export function middleware(request: NextRequest) {
+  // Correlation id for every log line, span and tool result this request produces
+  const requestId = resolveRequestId(request.headers);
+
   // Get the origin from the request
   const origin = request.headers.get("origin");
 
@@ -53,7 +57,7 @@ export function middleware(request: NextRequest) {
         "Access-Control-Allow-Origin": allowOrigin,
         "Access-Control-Allow-Credentials": "true", // Required for cookies/auth
         "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, PATCH, OPTIONS",
-        "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Requested-With, Accept, Origin, Next-Action, Next-Router-State-Tree, next-hmr-refresh",
+        "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Requested-With, X-Request-Id, Accept, Origin, Next-Action, Next-Router-State-Tree, next-hmr-refresh",
         "Access-Control-Max-Age": "86400",
       },
     });
@@ -67,6 +71,7 @@ export function middleware(request: NextRequest) {
   // Skip passkey check for auth routes, public routes, and static files
   const publicPaths = [
     "/login",
+    "/consent",
     "/auth-callback",
     "/setup-security",
     "/onboarding",
@@ -97,8 +102,13 @@ export function middleware(request: NextRequest) {
     }
   }
 
+  // Forward the request id to route handlers and server actions
+  const requestHeaders = new Headers(request.headers);
+  requestHeaders.set(REQUEST_ID_HEADER, requestId);
+
   // Get the response
-  const response = NextResponse.next();
+  const response = NextResponse.next({ request: { headers: requestHeaders } });
+  response.headers.set(REQUEST_ID_HEADER, requestId);
 
   // Set CSP header
   response.headers.set("Content-Security-Policy", csp.replace(/\s{2,}/g, ' ').trim());
@@ -109,10 +119,10 @@ export function middleware(request: NextRequest) {
     response.headers.set("Access-Control-Allow-Credentials", "true");
   }
   response.headers.set("Access-Control-Allow-Methods", "GET, POST, PUT, DELETE, PATCH, OPTIONS");
-  response.headers.set("Access-Control-Allow-Headers", "Content-Type, Authorization, X-Requested-With, Accept, Origin, Next-Action, Next-Router-State-Tree, next-hmr-refresh");
+  response.headers.set("Access-Control-Allow-Headers", "Content-Type, Authorization, X-Requested-With, X-Request-Id, Accept, Origin, Next-Action, Next-Router-State-Tree, next-hmr-refresh");
 
   // Expose headers that OAuth/MCP clients need
-  response.headers.set("Access-Control-Expose-Headers", "WWW-Authenticate, Location, Content-Type, Authorization");
+  response.headers.set("Access-Control-Expose-Headers", "WWW-Authenticate, Location, Content-Type, Authorization, X-Request-Id");
 
   return response;
 }
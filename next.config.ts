@@ -24,7 +24,8 @@ const nextConfig: NextConfig = {
       module: { browser: "./src/stubs/empty.js" },
     },
   },
-  serverExternalPackages: ["skybridge", "vite", "esbuild", "lightningcss"],
+  // pg and ioredis stay external so the OpenTelemetry instrumentation can patch them (instrumentation.node.ts)
+  serverExternalPackages: ["skybridge", "vite", "esbuild", "lightningcss", "pg", "ioredis"],
   // Skip ESLint during builds (run separately with pnpm lint)
   eslint: {
     ignoreDuringBuilds: true,
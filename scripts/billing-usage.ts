@@ -0,0 +1,54 @@
+/**
+ * Metered Usage Billing Jobs
+ *
+ * Reports recorded tool usage to Stripe for metered subscriptions, and reconciles the
+ * current billing period (lib/services/metered-billing.ts). Schedule `report` hourly and
+ * `reconcile` daily, e.g. with Railway cron jobs or a system crontab.
+ *
+ * Set STRIPE_API_BASE=http://localhost:12111 to run against stripe-mock.
+ *
+ * Usage:
+ *   pnpm billing:usage report
+ *   pnpm billing:usage reconcile
+ */
+
+import { parseArgs } from "node:util";
+import { reconcileMeteredUsage, reportMeteredUsage } from "@/lib/services/metered-billing";
+
+const COMMANDS = ["report", "reconcile"] as const;
+
+async function main() {
+  const { positionals } = parseArgs({ allowPositionals: true });
+  const command = positionals[0] ?? "report";
+
+  if (command === "report") {
+    const run = await reportMeteredUsage();
+    console.log(
+      `✅ Usage report: ${run.queued} queued, ${run.reported} reported, ${run.retrying} retrying, ${run.failed} failed`
+    );
+    process.exit(run.failed > 0 ? 1 : 0);
+  }
+
+  if (command === "reconcile") {
+    const results = await reconcileMeteredUsage();
+    console.table(
+      results.map(({ userId, recordedUnits, reportedUnits, failedUnits, correctedUnits, stripeUnits }) => ({
+        userId,
+        recorded: recordedUnits,
+        reported: reportedUnits,
+        failed: failedUnits,
+        corrected: correctedUnits,
+        stripe: stripeUnits ?? "-",
+      }))
+    );
+    process.exit(0);
+  }
+
+  console.error(`❌ Unknown command "${command}" (expected: ${COMMANDS.join(", ")})`);
+  process.exit(1);
+}
+
+main().catch((error) => {
+  console.error("❌ Billing job failed:", error);
+  process.exit(1);
+});
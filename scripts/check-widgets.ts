@@ -0,0 +1,26 @@
+/**
+ * Widget Page Check
+ *
+ * Fails when a tool in lib/mcp/tools, or an auth response (AUTH_WIDGETS), references a widget
+ * without a page under app/widgets/.
+ * Runs before `pnpm build`, since deployed bundles can't check the source tree at startup.
+ *
+ * Usage:
+ *   pnpm check:widgets
+ */
+
+import { tools } from "@/lib/mcp/tools";
+import { widgetResources } from "@/lib/mcp/registry";
+import { AUTH_WIDGETS, assertWidgetPagesExist } from "@/lib/mcp/widgets";
+import { fail, ROOT } from "./scaffold-utils";
+
+try {
+  assertWidgetPagesExist([...tools, ...AUTH_WIDGETS], ROOT);
+  console.log(
+    `✅ All widget pages found (${widgetResources(tools).length} widgets)`
+  );
+  // Importing the tools opens the shared Redis client, which would keep the process alive
+  process.exit(0);
+} catch (error) {
+  fail(error instanceof Error ? error.message : String(error));
+}
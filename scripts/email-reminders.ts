@@ -0,0 +1,25 @@
+/**
+ * Trial Reminder Emails
+ *
+ * Emails users whose trial ends within TRIAL_REMINDER_DAYS (lib/services/subscription-emails.ts).
+ * Schedule daily, e.g. with a Railway cron job or a system crontab. Reminders already sent are
+ * skipped, so running it more often is safe.
+ *
+ * Usage:
+ *   pnpm emails:reminders
+ */
+
+import { sendTrialEndingReminders } from "@/lib/services/subscription-emails";
+
+async function main() {
+  const run = await sendTrialEndingReminders();
+  console.log(
+    `✅ Trial reminders: ${run.checked} trials ending soon, ${run.sent} sent, ${run.duplicate} already sent, ${run.skipped} skipped, ${run.failed} failed`
+  );
+  process.exit(run.failed > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error("❌ Trial reminders failed:", error);
+  process.exit(1);
+});
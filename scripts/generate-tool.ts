@@ -0,0 +1,262 @@
+/**
+ * Tool Generator
+ *
+ * Scaffolds a new MCP tool and wires it into the tool registry:
+ * - lib/mcp/tools/<name>.ts          Tool definition (defineTool with zod schemas)
+ * - lib/types/tool-responses.ts      Structured content and response types
+ * - app/widgets/<name>/page.tsx      Widget page
+ * - src/components/<name>/index.tsx  Widget component
+ * - tests/unit/tools/<name>.test.ts  Starter test
+ * - lib/mcp/tools/index.ts           Registration in the `tools` list
+ *
+ * Usage:
+ *   pnpm generate:tool                                    # interactive
+ *   pnpm generate:tool --name get_orders --title "Get Orders" \
+ *     --description "List the user's recent orders"       # non-interactive
+ *
+ * Options:
+ *   --name <name>         Tool name (snake_case, e.g. "get_orders")
+ *   --title <title>       Human-readable title (default: derived from name)
+ *   --description <text>  Description surfaced to the model
+ *   --skip-widget         Don't generate a widget page and component
+ *   --skip-test           Don't generate a starter test
+ *   --force               Overwrite existing files
+ */
+
+import { parseArgs } from "node:util";
+import {
+  createFile,
+  createWidgetFiles,
+  fail,
+  fileExists,
+  resolveOption,
+  toCamelCase,
+  toKebabCase,
+  toPascalCase,
+  toSnakeCase,
+  toTitleCase,
+  updateFile,
+} from "./scaffold-utils";
+
+const TOOLS_INDEX = "lib/mcp/tools/index.ts";
+const TOOL_RESPONSES = "lib/types/tool-responses.ts";
+
+interface ToolNames {
+  toolName: string;
+  fileName: string;
+  exportName: string;
+  contentType: string;
+  responseType: string;
+  title: string;
+  description: string;
+}
+
+function toolTemplate(names: ToolNames, withWidget: boolean): string {
+  const { toolName, fileName, exportName, title, description } = names;
+  const widgetLines = withWidget ? `  widget: "${fileName}",\n` : "";
+  const widgetMeta = withWidget
+    ? `,
+      {
+        "openai/outputTemplate": getWidgetUri("${fileName}"),
+        "openai/widgetAccessible": true,
+      }`
+    : "";
+
+  return `/**
+ * ${title} Tool
+ *
+ * ${description}
+ */
+
+import { z } from "zod";
+import { defineTool } from "@/lib/mcp/registry";
+${withWidget ? 'import { getWidgetUri } from "@/lib/mcp/widgets";\n' : ""}import { createSuccessResponse } from "@/lib/utils/mcp-response-helpers";
+
+export const ${exportName} = defineTool({
+  name: "${toolName}",
+  title: ${JSON.stringify(title)},
+  description: ${JSON.stringify(description)},
+  // TEMPLATE: Define the tool arguments
+  inputSchema: {
+    query: z.string().optional().describe("What to look up"),
+  },
+  // TEMPLATE: Keep in sync with ${names.contentType} in lib/types/tool-responses.ts
+  outputSchema: {
+    result: z.string(),
+    timestamp: z.string(),
+  },
+${widgetLines}  annotations: { readOnlyHint: true },
+  // TEMPLATE: Adjust who can call this tool (see ToolAuthPolicy)
+  auth: { subscription: false },
+  handler: async ({ query }, { session }) => {
+    // TEMPLATE: Implement your tool logic here
+    const result = query
+      ? \`Result for "\${query}" (user \${session.userId})\`
+      : \`No query provided (user \${session.userId})\`;
+
+    return createSuccessResponse(
+      result,
+      {
+        result,
+        timestamp: new Date().toISOString(),
+      }${widgetMeta}
+    );
+  },
+});
+`;
+}
+
+function responseTypesTemplate(names: ToolNames): string {
+  return `
+/**
+ * ${names.title} Content
+ * ${names.description}
+ */
+export interface ${names.contentType} extends Record<string, unknown> {
+  result: string;
+  timestamp: string;
+}
+
+export type ${names.responseType} = MCPToolResponse<
+  ${names.contentType},
+  OpenAIResponseMetadata
+>;
+`;
+}
+
+function testTemplate(names: ToolNames): string {
+  const { toolName, fileName, exportName } = names;
+
+  return `import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { ${exportName} } from "@/lib/mcp/tools/${fileName}";
+import { logger } from "@/lib/services/logger-service";
+
+const session = { userId: "user_test", sessionId: "session_test", scopes: [] };
+
+describe("${toolName}", () => {
+  it("returns structured content matching its output schema", async () => {
+    const result = await ${exportName}.handler(
+      { query: "test" },
+      { session, logger: logger.child({ tool: "${toolName}" }) }
+    );
+
+    expect(result.isError).toBeFalsy();
+    expect(
+      z.object(${exportName}.outputSchema).safeParse(result.structuredContent).success
+    ).toBe(true);
+  });
+});
+`;
+}
+
+/**
+ * Add the tool import and list entry to lib/mcp/tools/index.ts
+ */
+function registerTool(content: string, names: ToolNames): string {
+  const importLine = `import { ${names.exportName} } from "./${names.fileName}";`;
+  const listPattern = /export const tools = \[([\s\S]*?)\] as const;/;
+
+  const match = content.match(listPattern);
+  if (!match) {
+    fail(`Could not find "export const tools = [...] as const;" in ${TOOLS_INDEX}`);
+  }
+
+  const entries = match[1]
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (entries.includes(names.exportName)) return content;
+  entries.push(names.exportName);
+
+  const list = `export const tools = [\n${entries.map((entry) => `  ${entry},`).join("\n")}\n] as const;`;
+  const withList = content.replace(listPattern, list);
+
+  // Insert the import after the last relative import
+  const lastImport = [...withList.matchAll(/^import .* from "\.\/.*";$/gm)].pop();
+  if (!lastImport || lastImport.index === undefined) {
+    fail(`Could not find the tool imports in ${TOOLS_INDEX}`);
+  }
+  const insertAt = lastImport.index + lastImport[0].length;
+
+  return `${withList.slice(0, insertAt)}\n${importLine}${withList.slice(insertAt)}`;
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      name: { type: "string" },
+      title: { type: "string" },
+      description: { type: "string" },
+      "skip-widget": { type: "boolean", default: false },
+      "skip-test": { type: "boolean", default: false },
+      force: { type: "boolean", default: false },
+    },
+  });
+
+  const toolName = toSnakeCase(await resolveOption(values.name, "Tool name (snake_case)"));
+  if (!/^[a-z][a-z0-9_]*$/.test(toolName)) {
+    fail(`Invalid tool name "${toolName}" - use lowercase letters, numbers and underscores`);
+  }
+
+  const title = await resolveOption(values.title, "Tool title", toTitleCase(toolName));
+  const description = await resolveOption(
+    values.description,
+    "Description (shown to the model)",
+    `TODO: Describe what ${title} does`
+  );
+
+  const pascalName = toPascalCase(toolName);
+  const names: ToolNames = {
+    toolName,
+    fileName: toKebabCase(toolName),
+    exportName: `${toCamelCase(toolName)}Tool`,
+    contentType: `${pascalName}Content`,
+    responseType: `${pascalName}Response`,
+    title,
+    description,
+  };
+  const withWidget = !values["skip-widget"];
+
+  const toolFile = `lib/mcp/tools/${names.fileName}.ts`;
+  if (fileExists(toolFile) && !values.force) {
+    fail(`${toolFile} already exists (use --force to overwrite)`);
+  }
+
+  console.log(`🛠️  Generating tool ${toolName}...`);
+
+  createFile(toolFile, toolTemplate(names, withWidget), values.force);
+
+  updateFile(TOOL_RESPONSES, (content) =>
+    content.includes(`interface ${names.contentType} `)
+      ? content
+      : `${content.trimEnd()}\n${responseTypesTemplate(names)}`
+  );
+
+  if (withWidget) {
+    createWidgetFiles({
+      widgetName: names.fileName,
+      title,
+      contentType: names.contentType,
+      force: values.force,
+    });
+  }
+
+  if (!values["skip-test"]) {
+    createFile(`tests/unit/tools/${names.fileName}.test.ts`, testTemplate(names), values.force);
+  }
+
+  updateFile(TOOLS_INDEX, (content) => registerTool(content, names));
+
+  console.log("");
+  console.log("✅ Tool created!");
+  console.log("");
+  console.log("Next steps:");
+  console.log(`  1. Define the schemas and logic in ${toolFile}`);
+  console.log(`  2. Keep ${names.contentType} in ${TOOL_RESPONSES} in sync with the outputSchema`);
+  if (withWidget) {
+    console.log(`  3. Build the UI in src/components/${names.fileName}/index.tsx`);
+  }
+}
+
+main();
@@ -0,0 +1,52 @@
+/**
+ * Widget Generator
+ *
+ * Scaffolds a widget page and its component.
+ *
+ * Usage:
+ *   pnpm generate:widget                      # interactive
+ *   pnpm generate:widget --name order-status  # non-interactive
+ *
+ * Options:
+ *   --name <name>    Widget name (kebab-case, e.g. "order-status")
+ *   --title <title>  Heading shown in the widget (default: derived from name)
+ *   --force          Overwrite existing files
+ */
+
+import { parseArgs } from "node:util";
+import {
+  createWidgetFiles,
+  fail,
+  resolveOption,
+  toKebabCase,
+  toTitleCase,
+} from "./scaffold-utils";
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      name: { type: "string" },
+      title: { type: "string" },
+      force: { type: "boolean", default: false },
+    },
+  });
+
+  const widgetName = toKebabCase(await resolveOption(values.name, "Widget name (kebab-case)"));
+  if (!/^[a-z][a-z0-9-]*$/.test(widgetName)) {
+    fail(`Invalid widget name "${widgetName}" - use lowercase letters, numbers and dashes`);
+  }
+
+  const title = await resolveOption(values.title, "Widget title", toTitleCase(widgetName));
+
+  console.log(`🧩 Generating widget ${widgetName}...`);
+  createWidgetFiles({ widgetName, title, force: values.force });
+
+  console.log("");
+  console.log("✅ Widget created!");
+  console.log("");
+  console.log("Next steps:");
+  console.log(`  1. Point a tool at it with widget: "${widgetName}"`);
+  console.log(`  2. Build the UI in src/components/${widgetName}/index.tsx`);
+}
+
+main();
@@ -0,0 +1,188 @@
+/**
+ * Shared helpers for the scaffolding scripts (generate-tool.ts, generate-widget.ts)
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, join, relative } from "node:path";
+import { createInterface } from "node:readline/promises";
+
+export const ROOT = join(__dirname, "..");
+
+// ============================================================================
+// NAMING
+// ============================================================================
+
+/**
+ * Split any of snake_case, kebab-case, camelCase or "Title Case" into lowercase words
+ */
+function words(value: string): string[] {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[\s_-]+/)
+    .filter(Boolean)
+    .map((word) => word.toLowerCase());
+}
+
+export const toSnakeCase = (value: string) => words(value).join("_");
+export const toKebabCase = (value: string) => words(value).join("-");
+export const toPascalCase = (value: string) =>
+  words(value).map((word) => word[0].toUpperCase() + word.slice(1)).join("");
+export const toCamelCase = (value: string) => {
+  const pascal = toPascalCase(value);
+  return pascal[0].toLowerCase() + pascal.slice(1);
+};
+export const toTitleCase = (value: string) =>
+  words(value).map((word) => word[0].toUpperCase() + word.slice(1)).join(" ");
+
+// ============================================================================
+// PROMPTS
+// ============================================================================
+
+/**
+ * Return the flag value, or prompt for it when running interactively
+ * Falls back to the default when stdin is not a TTY (CI, piped input)
+ */
+export async function resolveOption(
+  value: string | undefined,
+  question: string,
+  defaultValue?: string
+): Promise<string> {
+  if (value) return value;
+
+  if (!process.stdin.isTTY) {
+    if (defaultValue !== undefined) return defaultValue;
+    fail(`Missing required option: ${question}`);
+  }
+
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const suffix = defaultValue ? ` (${defaultValue})` : "";
+    const answer = (await rl.question(`? ${question}${suffix}: `)).trim();
+    if (answer) return answer;
+    if (defaultValue !== undefined) return defaultValue;
+    fail(`${question} is required`);
+  } finally {
+    rl.close();
+  }
+}
+
+// ============================================================================
+// FILES
+// ============================================================================
+
+/**
+ * Write a new file relative to the repo root
+ * Refuses to overwrite existing files unless `force` is set
+ */
+export function createFile(path: string, content: string, force = false): void {
+  const absolutePath = join(ROOT, path);
+
+  if (existsSync(absolutePath) && !force) {
+    fail(`${path} already exists (use --force to overwrite)`);
+  }
+
+  mkdirSync(dirname(absolutePath), { recursive: true });
+  writeFileSync(absolutePath, content);
+  console.log(`   ✓ Created ${relative(ROOT, absolutePath)}`);
+}
+
+/**
+ * Apply a transformation to an existing file relative to the repo root
+ */
+export function updateFile(path: string, update: (content: string) => string): void {
+  const absolutePath = join(ROOT, path);
+  const content = readFileSync(absolutePath, "utf8");
+  writeFileSync(absolutePath, update(content));
+  console.log(`   ✓ Updated ${path}`);
+}
+
+export function fileExists(path: string): boolean {
+  return existsSync(join(ROOT, path));
+}
+
+export function fail(message: string): never {
+  console.error(`❌ ${message}`);
+  process.exit(1);
+}
+
+// ============================================================================
+// WIDGETS
+// ============================================================================
+
+export interface WidgetFilesOptions {
+  /** Widget name in kebab-case (route segment and component directory) */
+  widgetName: string;
+  /** Title shown in the widget */
+  title: string;
+  /** Structured content type exported from lib/types/tool-responses.ts, if any */
+  contentType?: string;
+  force?: boolean;
+}
+
+/**
+ * Create the widget page (app/widgets/<name>/page.tsx) and its component (src/components/<name>/)
+ */
+export function createWidgetFiles({
+  widgetName,
+  title,
+  contentType,
+  force,
+}: WidgetFilesOptions): void {
+  const componentName = `${toPascalCase(widgetName)}Widget`;
+  const pageName = `${toPascalCase(widgetName)}Page`;
+  const dataType = contentType ?? "Record<string, unknown>";
+
+  createFile(
+    `app/widgets/${widgetName}/page.tsx`,
+    `import ${componentName} from "@/src/components/${widgetName}";
+
+// Widget pages require ChatGPT SDK context at runtime - skip static generation
+export const dynamic = "force-dynamic";
+
+export default function ${pageName}() {
+  return (
+    <>
+      <${componentName} />
+    </>
+  );
+}
+`,
+    force
+  );
+
+  const typeImport = contentType
+    ? `import type { ${contentType} } from "@/lib/types/tool-responses";\n`
+    : "";
+
+  createFile(
+    `src/components/${widgetName}/index.tsx`,
+    `"use client";
+
+import { useToolInfo } from "@/src/mcp-ui-hooks";
+import { checkWidgetAuth } from "@/src/utils/widget-auth-check";
+${typeImport}
+export default function ${componentName}() {
+  const { output } = useToolInfo();
+  const data = output as { structuredContent: ${dataType} } | undefined;
+
+  const authComponent = checkWidgetAuth(data?.structuredContent);
+  if (authComponent) return authComponent;
+
+  if (!data?.structuredContent) {
+    return <div className="p-4">Loading...</div>;
+  }
+
+  // TEMPLATE: Render your widget from the structured content
+  return (
+    <div className="p-6 bg-surface text-default rounded-lg border border-default">
+      <h2 className="text-2xl font-bold mb-4">${title}</h2>
+      <pre className="text-sm whitespace-pre-wrap">
+        {JSON.stringify(data.structuredContent, null, 2)}
+      </pre>
+    </div>
+  );
+}
+`,
+    force
+  );
+}
@@ -0,0 +1,73 @@
+/**
+ * Stripe Webhook Events
+ *
+ * Inspects the Stripe events stored by the webhook and replays the ones whose hooks
+ * failed (lib/services/stripe-events.ts). Replays run the event's remaining hooks from
+ * the stored payload; hooks that already succeeded aren't run again.
+ *
+ * Usage:
+ *   pnpm stripe:events list [--status failed] [--limit 50]
+ *   pnpm stripe:events replay [--id evt_123 --id evt_456]
+ */
+
+import { parseArgs } from "node:util";
+import { listStripeEvents, replayStripeEvents } from "@/lib/services/stripe-events";
+import type { StripeEventStatus } from "@/lib/services/stripe-events";
+
+const COMMANDS = ["list", "replay"] as const;
+const STATUSES: StripeEventStatus[] = ["pending", "processing", "processed", "failed"];
+
+async function main() {
+  const { positionals, values } = parseArgs({
+    allowPositionals: true,
+    options: {
+      status: { type: "string" },
+      limit: { type: "string" },
+      id: { type: "string", multiple: true },
+    },
+  });
+  const command = positionals[0] ?? "list";
+
+  if (command === "list") {
+    const status = values.status as StripeEventStatus | undefined;
+    if (status && !STATUSES.includes(status)) {
+      console.error(`❌ Unknown status "${status}" (expected: ${STATUSES.join(", ")})`);
+      process.exit(1);
+    }
+
+    const events = await listStripeEvents({ status, limit: values.limit ? Number(values.limit) : undefined });
+    console.table(
+      events.map(({ id, type, status, attempts, deliveries, lastError, receivedAt }) => ({
+        id,
+        type,
+        status,
+        attempts,
+        deliveries,
+        received: receivedAt.toISOString(),
+        error: lastError ?? "-",
+      }))
+    );
+    process.exit(0);
+  }
+
+  if (command === "replay") {
+    const results = await replayStripeEvents({ ids: values.id });
+    if (results.length === 0) {
+      console.log("✅ No failed events to replay");
+      process.exit(0);
+    }
+
+    console.table(results.map(({ id, type, outcome, error }) => ({ id, type, outcome, error: error ?? "-" })));
+    const failed = results.filter((result) => result.outcome === "failed").length;
+    console.log(`${failed > 0 ? "❌" : "✅"} Replayed ${results.length} events, ${failed} failed`);
+    process.exit(failed > 0 ? 1 : 0);
+  }
+
+  console.error(`❌ Unknown command "${command}" (expected: ${COMMANDS.join(", ")})`);
+  process.exit(1);
+}
+
+main().catch((error) => {
+  console.error("❌ Stripe events job failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,42 @@
+"use client";
+
+import { useOpenExternal, useToolInfo } from "@/src/mcp-ui-hooks";
+import { checkWidgetAuth } from "@/src/utils/widget-auth-check";
+import type { BillingLinkContent } from "@/lib/types/tool-responses";
+
+const ACTIONS: Record<BillingLinkContent["action"], { title: string; button: string }> = {
+  checkout: { title: "Subscribe", button: "Continue to checkout" },
+  change_plan: { title: "Change plan", button: "Review and confirm" },
+  cancel: { title: "Cancel subscription", button: "Continue to cancel" },
+  billing_portal: { title: "Billing", button: "Open billing portal" },
+};
+
+export default function BillingLinkWidget() {
+  const { output } = useToolInfo();
+  const data = output as { structuredContent: BillingLinkContent } | undefined;
+  const openExternal = useOpenExternal();
+
+  const authComponent = checkWidgetAuth(data?.structuredContent);
+  if (authComponent) return authComponent;
+
+  if (!data?.structuredContent) {
+    return <div className="p-4">Loading...</div>;
+  }
+
+  const { action, url, planDisplayName } = data.structuredContent;
+  const { title, button } = ACTIONS[action];
+
+  return (
+    <div className="p-6 bg-surface text-default rounded-lg border border-default">
+      <h2 className="text-2xl font-bold mb-1">{title}</h2>
+      {planDisplayName && <p className="text-secondary mb-4">{planDisplayName} plan</p>}
+      <p className="text-secondary mb-4">You&apos;ll finish on a secure Stripe page.</p>
+      <button
+        onClick={() => openExternal(url)}
+        className="w-full rounded-md bg-white px-4 py-3 font-medium text-black transition-colors hover:bg-gray-100 border border-gray-200"
+      >
+        {button}
+      </button>
+    </div>
+  );
+}
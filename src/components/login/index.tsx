@@ -0,0 +1,34 @@
+"use client";
+
+import { useOpenExternal, useToolInfo } from "@/src/mcp-ui-hooks";
+import type { AuthChallengeContent } from "@/lib/types/tool-responses";
+
+/**
+ * Sign-in prompt for createLoginPromptResponse()
+ * Rendered as its own widget, or inside another tool's widget by checkWidgetAuth()
+ */
+export default function Login({ content }: { content?: AuthChallengeContent }) {
+  const { output } = useToolInfo();
+  const openExternal = useOpenExternal();
+  const data = content ?? (output as { structuredContent?: AuthChallengeContent } | undefined)?.structuredContent;
+
+  if (!data) {
+    return <div className="p-4">Loading...</div>;
+  }
+
+  return (
+    <div className="p-6 bg-surface text-default rounded-lg border border-default">
+      <h2 className="text-2xl font-bold mb-1">Sign in required</h2>
+      <p className="text-secondary mb-4">{data.message}</p>
+      {data.loginUrl && (
+        <button
+          onClick={() => openExternal(data.loginUrl!)}
+          className="w-full rounded-md bg-white px-4 py-3 font-medium text-black transition-colors hover:bg-gray-100 border border-gray-200"
+        >
+          Sign in
+        </button>
+      )}
+      <p className="text-sm text-secondary mt-4">Once you&apos;ve signed in, ask again to continue.</p>
+    </div>
+  );
+}
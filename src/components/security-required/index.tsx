@@ -0,0 +1,38 @@
+"use client";
+
+import { useOpenExternal, useToolInfo } from "@/src/mcp-ui-hooks";
+import type { AuthChallengeContent } from "@/lib/types/tool-responses";
+
+/**
+ * Passkey setup prompt for createSecurityRequiredResponse()
+ * Rendered as its own widget, or inside another tool's widget by checkWidgetAuth()
+ */
+export default function SecurityRequired({ content }: { content?: AuthChallengeContent }) {
+  const { output } = useToolInfo();
+  const openExternal = useOpenExternal();
+  const data = content ?? (output as { structuredContent?: AuthChallengeContent } | undefined)?.structuredContent;
+
+  if (!data) {
+    return <div className="p-4">Loading...</div>;
+  }
+
+  return (
+    <div className="p-6 bg-surface text-default rounded-lg border border-default">
+      <h2 className="text-2xl font-bold mb-1">Set up a passkey</h2>
+      <p className="text-secondary mb-4">
+        {data.featureName ? `To use ${data.featureName}, ` : "To continue, "}
+        add a passkey to your account. Passkeys use your device&apos;s fingerprint, face or screen lock
+        instead of a password.
+      </p>
+      {data.setupUrl && (
+        <button
+          onClick={() => openExternal(data.setupUrl!)}
+          className="w-full rounded-md bg-white px-4 py-3 font-medium text-black transition-colors hover:bg-gray-100 border border-gray-200"
+        >
+          Set up passkey
+        </button>
+      )}
+      <p className="text-sm text-secondary mt-4">Once your passkey is set up, ask again to continue.</p>
+    </div>
+  );
+}
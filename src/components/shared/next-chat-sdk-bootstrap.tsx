@@ -83,6 +83,22 @@ export function NextChatSDKBootstrap({ baseUrl }: { baseUrl: string }) {
             if (isInIframe && window.location.origin !== appOrigin) {
               const originalFetch = window.fetch;
 
+              // Forward the correlation id of the tool call that rendered this widget,
+              // so the app's logs tie its fetches to that call (see lib/utils/request-id.ts)
+              const corsInit = (input: URL | RequestInfo, init?: RequestInit): RequestInit => {
+                const openai = window.openai as { toolResponseMetadata?: Record<string, unknown> | null } | undefined;
+                const requestId = openai?.toolResponseMetadata?.["mcp/requestId"];
+                if (typeof requestId !== "string") {
+                  return { ...init, mode: "cors" };
+                }
+
+                const headers = new Headers(init?.headers ?? (input instanceof Request ? input.headers : undefined));
+                if (!headers.has("x-request-id")) {
+                  headers.set("x-request-id", requestId);
+                }
+                return { ...init, headers, mode: "cors" };
+              };
+
               // eslint-disable-next-line react-hooks/immutability
               window.fetch = (input: URL | RequestInfo, init?: RequestInit) => {
                 let url: URL;
@@ -99,10 +115,7 @@ export function NextChatSDKBootstrap({ baseUrl }: { baseUrl: string }) {
                     input = new Request(url.toString(), input);
                   }
 
-                  return originalFetch.call(window, input, {
-                    ...init,
-                    mode: "cors",
-                  });
+                  return originalFetch.call(window, input, corsInit(input, init));
                 }
 
                 if (url.origin === window.location.origin) {
@@ -118,10 +131,7 @@ export function NextChatSDKBootstrap({ baseUrl }: { baseUrl: string }) {
                     input = new Request(url.toString(), input);
                   }
 
-                  return originalFetch.call(window, input, {
-                    ...init,
-                    mode: "cors",
-                  });
+                  return originalFetch.call(window, input, corsInit(input, init));
                 }
 
                 return originalFetch.call(window, input, init);
@@ -0,0 +1,118 @@
+"use client";
+
+import { useToolInfo } from "@/src/mcp-ui-hooks";
+import { useBillingAction } from "@/src/utils/use-billing-action";
+import { ENTITLEMENTS, PLAN_NAMES, PLANS } from "@/lib/config/plans";
+import { formatAccountLimit, formatUsageQuota, getAllPlanLimits } from "@/lib/utils/plan-limits";
+import type { AuthChallengeContent } from "@/lib/types/tool-responses";
+
+/**
+ * Plan comparison for createSubscriptionRequiredResponse() and createUpgradeRequiredResponse()
+ * Rendered as its own widget, or inside another tool's widget by checkWidgetAuth()
+ *
+ * Without a subscription every plan can be bought; for "Upgrade required" only the
+ * plans in `upgradeOptions` are offered, and add-ons are bought in the billing portal.
+ * For "Payment required" (createSubscriptionGraceResponse()) the payment method is
+ * updated in the billing portal instead.
+ */
+export default function SubscriptionRequired({ content }: { content?: AuthChallengeContent }) {
+  const { output } = useToolInfo();
+  const { run, pending, error } = useBillingAction();
+  const data = content ?? (output as { structuredContent?: AuthChallengeContent } | undefined)?.structuredContent;
+
+  if (!data) {
+    return <div className="p-4">Loading...</div>;
+  }
+
+  const buttonClass =
+    "rounded-md border border-gray-200 px-3 py-1 font-medium transition-colors hover:bg-gray-100 hover:text-black disabled:opacity-50";
+
+  if (data.error_message === "Payment required") {
+    return (
+      <div className="p-6 bg-surface text-default rounded-lg border border-default">
+        <h2 className="text-2xl font-bold mb-1">Payment required</h2>
+        <p className="text-secondary mb-4">{data.message}</p>
+        <button disabled={pending} onClick={() => run({ tool: "open_billing_portal" })} className={buttonClass}>
+          Update payment method
+        </button>
+        {error && <p className="text-sm text-red-500 mt-4">{error}</p>}
+      </div>
+    );
+  }
+
+  const isUpgrade = data.error_message === "Upgrade required";
+  const upgradeOptions = data.upgradeOptions ?? [];
+  const offered = (name: string) =>
+    !isUpgrade || upgradeOptions.some((option) => option.type === "plan" && option.name === name);
+  const addOns = upgradeOptions.filter((option) => option.type === "add_on");
+  const planLimits = getAllPlanLimits();
+  // Plans without a Stripe price can't be bought (getPurchasablePlans())
+  const plans = PLAN_NAMES.filter((name) => data.purchasablePlans?.includes(name) ?? true);
+
+  return (
+    <div className="p-6 bg-surface text-default rounded-lg border border-default">
+      <h2 className="text-2xl font-bold mb-1">{isUpgrade ? "Upgrade required" : "Subscription required"}</h2>
+      <p className="text-secondary mb-4">{data.message}</p>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-secondary">
+            <th className="font-medium pb-2">Plan</th>
+            <th className="font-medium pb-2 text-right">Units / month</th>
+            <th className="font-medium pb-2 text-right">Calls / min</th>
+            <th className="font-medium pb-2 text-right">Accounts</th>
+            <th className="font-medium pb-2 pl-4">Includes</th>
+            <th className="pb-2" />
+          </tr>
+        </thead>
+        <tbody>
+          {plans.map((name) => {
+            const plan = planLimits[name];
+            return (
+              <tr key={name} className={`border-t border-default ${offered(name) ? "" : "opacity-50"}`}>
+                <td className="py-2 font-semibold">{plan.displayName}</td>
+                <td className="py-2 text-right">{formatUsageQuota(plan.monthlyUsageUnits)}</td>
+                <td className="py-2 text-right">{plan.toolCallsPerMinute.toLocaleString("en-US")}</td>
+                <td className="py-2 text-right">{formatAccountLimit(plan.maxAccounts)}</td>
+                <td className="py-2 pl-4">
+                  {PLANS[name].entitlements.map((entitlement) => ENTITLEMENTS[entitlement]).join(", ") || "—"}
+                </td>
+                <td className="py-2 text-right">
+                  {offered(name) && (
+                    <button
+                      disabled={pending}
+                      onClick={() => run({ tool: isUpgrade ? "change_plan" : "start_checkout", plan: name })}
+                      className={buttonClass}
+                    >
+                      {isUpgrade ? "Switch" : "Subscribe"}
+                    </button>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+          {plans.length === 0 && (
+            <tr className="border-t border-default">
+              <td colSpan={6} className="py-2 text-secondary">
+                No plans are available yet.
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+
+      {addOns.length > 0 && (
+        <div className="mt-4">
+          <p className="mb-2">
+            Or add {addOns.map((addOn) => addOn.displayName).join(", ")} to your current plan.
+          </p>
+          <button disabled={pending} onClick={() => run({ tool: "open_billing_portal" })} className={buttonClass}>
+            Manage add-ons
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-500 mt-4">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+"use client";
+
+import { useToolInfo } from "@/src/mcp-ui-hooks";
+import { checkWidgetAuth } from "@/src/utils/widget-auth-check";
+import { useBillingAction } from "@/src/utils/use-billing-action";
+import type { SubscriptionContent } from "@/lib/types/tool-responses";
+import type { PlanName } from "@/lib/config/plans";
+
+export default function SubscriptionWidget() {
+  const { output } = useToolInfo();
+  const data = output as { structuredContent: SubscriptionContent } | undefined;
+  const { run: runAction, pending, error } = useBillingAction();
+
+  const authComponent = checkWidgetAuth(data?.structuredContent);
+  if (authComponent) return authComponent;
+
+  if (!data?.structuredContent) {
+    return <div className="p-4">Loading...</div>;
+  }
+
+  const {
+    planDisplayName,
+    status,
+    trialEnd,
+    periodEnd,
+    cancelAtPeriodEnd,
+    graceEndsAt,
+    addOns,
+    entitlements,
+    availablePlans,
+  } = data.structuredContent;
+
+  const renewalLabel = cancelAtPeriodEnd ? "Ends" : status === "trialing" ? "Trial ends" : "Renews";
+  const renewalDate = status === "trialing" && !cancelAtPeriodEnd ? trialEnd : periodEnd;
+  const buttonClass =
+    "rounded-md border border-gray-200 px-4 py-2 font-medium transition-colors hover:bg-gray-100 hover:text-black disabled:opacity-50";
+
+  return (
+    <div className="p-6 bg-surface text-default rounded-lg border border-default">
+      <h2 className="text-2xl font-bold mb-1">{planDisplayName ? `${planDisplayName} plan` : "No subscription"}</h2>
+      {planDisplayName && (
+        <p className="text-secondary mb-4">
+          {status}
+          {renewalDate && ` · ${renewalLabel} ${new Date(renewalDate).toLocaleDateString()}`}
+        </p>
+      )}
+
+      {graceEndsAt && (
+        <p className="text-sm text-red-500 mb-4">
+          Your last payment failed. Update your payment method by {new Date(graceEndsAt).toLocaleDateString()} to
+          keep access.
+        </p>
+      )}
+
+      {entitlements.length > 0 && (
+        <p className="mb-2">
+          <span className="font-semibold">Includes:</span>{" "}
+          {entitlements.map((entitlement) => entitlement.displayName).join(", ")}
+        </p>
+      )}
+      {addOns.length > 0 && (
+        <p className="mb-2">
+          <span className="font-semibold">Add-ons:</span> {addOns.map((addOn) => addOn.displayName).join(", ")}
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-2 mt-4">
+        {availablePlans
+          .filter((plan) => !plan.current)
+          .map((plan) => (
+            <button
+              key={plan.name}
+              disabled={pending}
+              onClick={() =>
+                runAction({
+                  tool: planDisplayName ? "change_plan" : "start_checkout",
+                  plan: plan.name as PlanName,
+                })
+              }
+              className={buttonClass}
+            >
+              {planDisplayName ? `Switch to ${plan.displayName}` : `Subscribe to ${plan.displayName}`}
+            </button>
+          ))}
+      </div>
+
+      {planDisplayName && (
+        <div className="flex flex-wrap gap-2 mt-2">
+          <button
+            disabled={pending}
+            onClick={() => runAction({ tool: "open_billing_portal" })}
+            className={buttonClass}
+          >
+            {graceEndsAt ? "Update payment method" : "Manage billing"}
+          </button>
+          {!cancelAtPeriodEnd && (
+            <button
+              disabled={pending}
+              onClick={() => runAction({ tool: "cancel_subscription" })}
+              className={buttonClass}
+            >
+              Cancel subscription
+            </button>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-500 mt-4">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import { useToolInfo } from "@/src/mcp-ui-hooks";
+import { checkWidgetAuth } from "@/src/utils/widget-auth-check";
+import type { UsageContent } from "@/lib/types/tool-responses";
+
+function formatUnits(units: number | null): string {
+  return units === null ? "Unlimited" : units.toLocaleString("en-US");
+}
+
+export default function UsageWidget() {
+  const { output } = useToolInfo();
+  const data = output as { structuredContent: UsageContent } | undefined;
+
+  const authComponent = checkWidgetAuth(data?.structuredContent);
+  if (authComponent) return authComponent;
+
+  if (!data?.structuredContent) {
+    return <div className="p-4">Loading...</div>;
+  }
+
+  const { plan, used, quota, periodEnd, byTool } = data.structuredContent;
+  const percent = quota ? Math.min(100, Math.round((used / quota) * 100)) : 0;
+
+  return (
+    <div className="p-6 bg-surface text-default rounded-lg border border-default">
+      <h2 className="text-2xl font-bold mb-1">Usage this month</h2>
+      <p className="text-secondary mb-4">
+        {plan ? `${plan.charAt(0).toUpperCase()}${plan.slice(1)} plan` : "Free allowance"} · resets{" "}
+        {new Date(periodEnd).toLocaleDateString()}
+      </p>
+
+      <p className="mb-2">
+        <span className="font-semibold">{formatUnits(used)}</span> of {formatUnits(quota)} units
+      </p>
+      {quota !== null && (
+        <div className="h-2 w-full rounded-full border border-default overflow-hidden mb-6">
+          <div
+            className={`h-full ${percent >= 90 ? "bg-red-500" : "bg-blue-500"}`}
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+      )}
+
+      {byTool.length === 0 ? (
+        <p className="text-secondary">No tool calls yet this month.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-secondary">
+              <th className="font-medium pb-2">Tool</th>
+              <th className="font-medium pb-2 text-right">Calls</th>
+              <th className="font-medium pb-2 text-right">Units</th>
+            </tr>
+          </thead>
+          <tbody>
+            {byTool.map((row) => (
+              <tr key={row.tool} className="border-t border-default">
+                <td className="py-2">{row.tool}</td>
+                <td className="py-2 text-right">{row.calls.toLocaleString("en-US")}</td>
+                <td className="py-2 text-right">{row.units.toLocaleString("en-US")}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -18,7 +18,7 @@
  */
 
 import { useState, useEffect, useCallback, useSyncExternalStore } from 'react';
-import type { AppType } from '@/app/[transport]/route';
+import type { AppType } from '@/lib/mcp/tools';
 
 // Apps SDK Types (from official OpenAI Apps SDK documentation)
 // See: https://developers.openai.com/apps-sdk/build/custom-ux
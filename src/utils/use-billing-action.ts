@@ -0,0 +1,47 @@
+/**
+ * Billing Action Hook
+ *
+ * Calls a subscription management tool (lib/mcp/tools) from a widget and opens the
+ * Stripe URL it returns outside the iframe. Shared by the subscription and
+ * subscription-required widgets.
+ */
+
+import { useCallback, useState } from "react";
+import { useCallTool, useOpenExternal } from "@/src/mcp-ui-hooks";
+import type { PlanName } from "@/lib/config/plans";
+
+export type BillingAction =
+  | { tool: "start_checkout" | "change_plan"; plan: PlanName }
+  | { tool: "cancel_subscription" | "open_billing_portal" };
+
+export function useBillingAction() {
+  const callTool = useCallTool();
+  const openExternal = useOpenExternal();
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = useCallback(
+    async (action: BillingAction) => {
+      setPending(true);
+      setError(null);
+      try {
+        const result =
+          "plan" in action
+            ? await callTool(action.tool, { plan: action.plan })
+            : await callTool(action.tool, {});
+        // Error results carry a message instead of a URL
+        const content = result?.structuredContent as { url?: string; message?: string } | undefined;
+        if (content?.url) {
+          openExternal(content.url);
+        } else {
+          setError(content?.message ?? "Something went wrong. Please try again.");
+        }
+      } finally {
+        setPending(false);
+      }
+    },
+    [callTool, openExternal]
+  );
+
+  return { run, pending, error };
+}
@@ -9,11 +9,10 @@
  * break server action bindings when loaded through the Skybridge widget path.
  */
 
-// TEMPLATE: Import your required shared components here.
-// We have commented these out as they are implementation specific,
-// but you should implement them if you need them.
-// import SubscriptionRequired from "@/src/components/subscription-required";
-// import SecurityRequired from "@/src/components/security-required";
+import Login from "@/src/components/login";
+import SubscriptionRequired from "@/src/components/subscription-required";
+import SecurityRequired from "@/src/components/security-required";
+import type { AuthChallengeContent } from "@/lib/types/tool-responses";
 
 /**
  * Check widget auth state and return appropriate component if auth is required.
@@ -34,20 +33,27 @@
  * }
  * ```
  */
-export function checkWidgetAuth(toolOutput: any) {
+export function checkWidgetAuth(toolOutput: Record<string, unknown> | undefined) {
   if (!toolOutput) return null;
+  const content = toolOutput as AuthChallengeContent;
 
+  // Responses from lib/utils/auth-responses.ts
   // TEMPLATE: Add your own checks here based on your tool's error responses.
+  if (content.error_message === "Login required") {
+    return <Login content={content} />;
+  }
 
-  // Example: Check for Security required (Passkey)
-  // if (toolOutput.message === "Security setup required") {
-  //   return <SecurityRequired />;
-  // }
+  if (content.message === "Security setup required") {
+    return <SecurityRequired content={content} />;
+  }
 
-  // Example: Check for subscription required
-  // if (toolOutput.error_message === "Subscription required") {
-  //   return <SubscriptionRequired />;
-  // }
+  if (
+    content.error_message === "Subscription required" ||
+    content.error_message === "Upgrade required" ||
+    content.error_message === "Payment required"
+  ) {
+    return <SubscriptionRequired content={content} />;
+  }
 
   // No auth issues
   return null;
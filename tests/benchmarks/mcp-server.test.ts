@@ -0,0 +1,129 @@
+// @vitest-environment node
+/**
+ * MCP Server Benchmark
+ *
+ * Compares `tools/list` and `tools/call` latency between rebuilding the MCP handler
+ * for every request (registering every tool, prompt and resource each time) and the
+ * shared handler the route builds once at module load, and fails if sharing is slower.
+ *
+ * Runs in-process against the same handler stack as app/[transport]/route.ts
+ * (without the OAuth wrapper), so no server, database or token is needed.
+ *
+ * Usage:
+ *   pnpm bench:mcp
+ *   MCP_BENCH_ITERATIONS=1000 pnpm bench:mcp
+ */
+
+import { performance } from "node:perf_hooks";
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { createMcpHandler } from "mcp-handler";
+import { initializeMcpServer, MCP_SERVER_OPTIONS } from "@/lib/mcp/server";
+import { runWithMcpRequestContext } from "@/lib/mcp/request-context";
+
+const ITERATIONS = Number(process.env.MCP_BENCH_ITERATIONS) || 100;
+const WARMUP_ITERATIONS = 20;
+
+const HANDLER_CONFIG = { basePath: "/", verboseLogs: false };
+
+const SESSION = { userId: "bench_user", sessionId: "bench_session", scopes: [] };
+
+type McpHandler = (request: Request) => Promise<Response>;
+
+interface Scenario {
+  name: string;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+const SCENARIOS: Scenario[] = [
+  { name: "tools/list", method: "tools/list" },
+  {
+    name: "tools/call hello_world",
+    method: "tools/call",
+    params: { name: "hello_world", arguments: { name: "Bench" } },
+  },
+];
+
+/**
+ * Send one JSON-RPC request through a handler and wait for the full response
+ */
+async function send(handler: McpHandler, scenario: Scenario, id: number): Promise<void> {
+  const request = new Request("http://localhost/mcp", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json, text/event-stream",
+    },
+    body: JSON.stringify({ jsonrpc: "2.0", id, method: scenario.method, params: scenario.params }),
+  });
+
+  const response = await runWithMcpRequestContext(
+    { session: SESSION, transport: "streamable-http", requestId: `bench-${id}` },
+    () => handler(request)
+  );
+  const body = await response.text();
+
+  if (!body.includes('"result"')) {
+    throw new Error(`${scenario.name} failed: ${body.slice(0, 200)}`);
+  }
+}
+
+/**
+ * Time ITERATIONS sequential requests, returning each latency in milliseconds
+ */
+async function measure(getHandler: () => McpHandler, scenario: Scenario): Promise<number[]> {
+  for (let i = 0; i < WARMUP_ITERATIONS; i++) {
+    await send(getHandler(), scenario, i);
+  }
+
+  const timings: number[] = [];
+  for (let i = 0; i < ITERATIONS; i++) {
+    const start = performance.now();
+    await send(getHandler(), scenario, i);
+    timings.push(performance.now() - start);
+  }
+  return timings;
+}
+
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+}
+
+function summarize(timings: number[]) {
+  const sorted = [...timings].sort((a, b) => a - b);
+  const mean = timings.reduce((sum, value) => sum + value, 0) / timings.length;
+  return {
+    mean: Number(mean.toFixed(3)),
+    p50: Number(percentile(sorted, 50).toFixed(3)),
+    p95: Number(percentile(sorted, 95).toFixed(3)),
+  };
+}
+
+describe("MCP server benchmark", () => {
+  beforeAll(() => {
+    // Keep request traces, the Redis-backed rate limiter and Postgres usage metering
+    // out of the measurements
+    vi.stubEnv("MCP_TRACE_SAMPLE_RATE", "0");
+    vi.stubEnv("MCP_RATE_LIMIT_ENABLED", "false");
+    vi.stubEnv("MCP_USAGE_METERING_ENABLED", "false");
+  });
+
+  const perRequest = () => createMcpHandler(initializeMcpServer, MCP_SERVER_OPTIONS, HANDLER_CONFIG);
+  const sharedHandler = createMcpHandler(initializeMcpServer, MCP_SERVER_OPTIONS, HANDLER_CONFIG);
+  const shared = () => sharedHandler;
+
+  for (const scenario of SCENARIOS) {
+    it(`${scenario.name} is not slower on the shared server`, { timeout: 120_000 }, async () => {
+      const before = summarize(await measure(perRequest, scenario));
+      const after = summarize(await measure(shared, scenario));
+
+      console.table([
+        { handler: "per request", ...before },
+        { handler: "shared", ...after, speedup: `${(before.p50 / after.p50).toFixed(1)}x` },
+      ]);
+
+      // Medians, so a GC pause or a slow first connection doesn't decide the result
+      expect(after.p50).toBeLessThanOrEqual(before.p50);
+    });
+  }
+});
@@ -0,0 +1,7 @@
+/**
+ * Vitest Per-File Setup
+ *
+ * Adds the Testing Library matchers (toBeInTheDocument...) to `expect`.
+ */
+
+import "@testing-library/jest-dom/vitest";
@@ -0,0 +1,63 @@
+/**
+ * Test Database
+ *
+ * In-process Postgres (PGlite) with the app's schema, so tests of code that queries `db`
+ * run without a database server. Every test file gets its own empty database.
+ *
+ * Point the app at it from a test file:
+ *
+ *   vi.mock("@/lib/db", async () => (await import("@/tests/test-db")).testDbModule);
+ *
+ *   beforeAll(() => migrateTestDb());
+ *   beforeEach(() => resetTestDb());
+ *   afterAll(() => closeTestDb());
+ *
+ * PGlite needs Node's WebAssembly loading - add `// @vitest-environment node` to the file.
+ */
+
+import { EventEmitter } from "node:events";
+import { PGlite } from "@electric-sql/pglite";
+import { getTableName, is } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/pglite";
+import { PgTable } from "drizzle-orm/pg-core";
+import * as schema from "@/lib/db/schema";
+
+export const testClient = new PGlite();
+
+export const testDb = drizzle(testClient, { schema });
+
+/**
+ * Stand-in for the exports of lib/db/index.ts (the pool only takes error listeners)
+ */
+export const testDbModule = { db: testDb, pool: new EventEmitter(), schema };
+
+let migrated: Promise<void> | null = null;
+
+/**
+ * Create every table in lib/db/schema.ts
+ */
+export function migrateTestDb(): Promise<void> {
+  migrated ??= (async () => {
+    // Same diff `pnpm db:push` applies, from an empty database
+    const { generateDrizzleJson, generateMigration } = await import("drizzle-kit/api");
+    const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+    for (const statement of statements) {
+      await testClient.exec(statement);
+    }
+  })();
+  return migrated;
+}
+
+/**
+ * Delete every row, e.g. before each test
+ */
+export async function resetTestDb(): Promise<void> {
+  const tables = Object.values(schema)
+    .filter((value) => is(value, PgTable))
+    .map((table) => `"${getTableName(table)}"`);
+  await testClient.exec(`TRUNCATE ${tables.join(", ")} CASCADE`);
+}
+
+export async function closeTestDb(): Promise<void> {
+  await testClient.close();
+}
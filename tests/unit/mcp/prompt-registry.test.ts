@@ -0,0 +1,107 @@
+// @vitest-environment node
+import { describe, it, expect, afterEach } from "vitest";
+import { z } from "zod";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { McpSession } from "@/lib/auth/mcp-auth";
+import { createUserMessage, definePrompt, registerPrompts } from "@/lib/mcp/prompt-registry";
+import { pinMcpRequestContext, runWithMcpRequestContext } from "@/lib/mcp/request-context";
+import { greetPrompt } from "@/lib/mcp/prompts/greet";
+
+const ALICE: McpSession = { userId: "alice", sessionId: "session-alice", scopes: [] };
+
+const summaryPrompt = definePrompt({
+  name: "summary",
+  title: "Summary",
+  description: "Summarize the caller's items",
+  argsSchema: {
+    period: z.string().describe("Period to summarize"),
+    format: z.string().optional(),
+  },
+  handler: async ({ period, format }, { session }) => [
+    createUserMessage(`Summarize ${session?.userId ?? "anonymous"}'s items from the last ${period} as ${format ?? "text"}.`),
+  ],
+});
+
+const clients: Client[] = [];
+
+/**
+ * Connect a client to a server whose requests all run with the given session
+ */
+async function connect(session: McpSession | null = ALICE): Promise<Client> {
+  const server = new McpServer({ name: "test", version: "0.0.0" });
+  registerPrompts(server, [summaryPrompt, greetPrompt]);
+  runWithMcpRequestContext({ session, transport: "streamable-http", requestId: "request-1" }, () =>
+    pinMcpRequestContext(server)
+  );
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: "test-client", version: "0.0.0" });
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+  clients.push(client);
+  return client;
+}
+
+afterEach(async () => {
+  await Promise.all(clients.splice(0).map((client) => client.close()));
+});
+
+describe("registerPrompts", () => {
+  it("lists each prompt with its title and arguments", async () => {
+    const client = await connect();
+
+    const { prompts } = await client.listPrompts();
+
+    expect(prompts[0]).toMatchObject({
+      name: "summary",
+      title: "Summary",
+      description: "Summarize the caller's items",
+      arguments: [
+        { name: "period", description: "Period to summarize", required: true },
+        { name: "format", required: false },
+      ],
+    });
+    expect(prompts.map((prompt) => prompt.name)).toEqual(["summary", "greet"]);
+  });
+
+  it("builds the messages from the parsed arguments and the request's session", async () => {
+    const client = await connect();
+
+    const result = await client.getPrompt({ name: "summary", arguments: { period: "week" } });
+
+    expect(result).toEqual({
+      description: "Summarize the caller's items",
+      messages: [createUserMessage("Summarize alice's items from the last week as text.")],
+    });
+  });
+
+  it("passes a null session to the handler when unauthenticated", async () => {
+    const client = await connect(null);
+
+    const result = await client.getPrompt({ name: "summary", arguments: { period: "month", format: "table" } });
+
+    expect(result.messages[0].content).toEqual({
+      type: "text",
+      text: "Summarize anonymous's items from the last month as table.",
+    });
+  });
+
+  it("rejects missing required arguments", async () => {
+    const client = await connect();
+
+    await expect(client.getPrompt({ name: "summary", arguments: {} })).rejects.toThrow("Invalid arguments");
+  });
+
+  it("completes completable arguments", async () => {
+    const client = await connect();
+
+    const { completion } = await client.complete({
+      ref: { type: "ref/prompt", name: "greet" },
+      argument: { name: "tone", value: "F" },
+    });
+
+    expect(completion.values).toEqual(["friendly", "formal"]);
+  });
+});
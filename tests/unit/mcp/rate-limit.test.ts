@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import RedisMock from "ioredis-mock";
+import type { RateLimitStore } from "@/lib/mcp/rate-limit";
+
+const mocks = vi.hoisted(() => ({
+  store: null as unknown as RateLimitStore,
+  getSubscriptionTier: vi.fn<(userId: string) => Promise<string | null>>(),
+}));
+
+vi.mock("@/lib/db/redis", () => ({
+  get redis() {
+    return mocks.store;
+  },
+}));
+vi.mock("@/lib/config/features", () => ({ FEATURES: { SUBSCRIPTIONS: true, PASSKEYS: true } }));
+vi.mock("@/lib/utils/subscription-helpers", () => ({ getSubscriptionTier: mocks.getSubscriptionTier }));
+
+const { checkToolRateLimit, consumeRateLimit } = await import("@/lib/mcp/rate-limit");
+const { DEFAULT_TOOL_CALLS_PER_MINUTE, PLAN_LIMITS } = await import("@/lib/utils/plan-limits");
+const { logger } = await import("@/lib/services/logger-service");
+
+// In-memory Redis that runs Lua, so the tests run SLIDING_WINDOW_SCRIPT itself.
+// Keys still expire in real time: windows are long enough not to expire mid-test.
+const store = new RedisMock();
+mocks.store = store;
+
+beforeEach(async () => {
+  await store.flushall();
+  vi.restoreAllMocks();
+  vi.spyOn(store, "eval");
+  mocks.getSubscriptionTier.mockReset().mockResolvedValue(null);
+  vi.unstubAllEnvs();
+});
+
+describe("consumeRateLimit", () => {
+  it("allows calls up to the limit, then denies until the oldest call leaves the window", async () => {
+    const results = [];
+    for (let i = 0; i < 3; i++) {
+      results.push(await consumeRateLimit("bucket", 3, 60_000, store, 10_000 + i * 1_000));
+    }
+    expect(results.map((result) => [result.allowed, result.remaining])).toEqual([
+      [true, 2],
+      [true, 1],
+      [true, 0],
+    ]);
+
+    const denied = await consumeRateLimit("bucket", 3, 60_000, store, 15_000);
+    expect(denied).toEqual({ allowed: false, limit: 3, remaining: 0, retryAfterMs: 55_000 });
+
+    const afterOldest = await consumeRateLimit("bucket", 3, 60_000, store, 70_001);
+    expect(afterOldest).toEqual({ allowed: true, limit: 3, remaining: 0, retryAfterMs: 0 });
+  });
+
+  it("counts buckets separately", async () => {
+    await consumeRateLimit("a", 1, 60_000, store, 0);
+
+    expect((await consumeRateLimit("a", 1, 60_000, store, 1)).allowed).toBe(false);
+    expect((await consumeRateLimit("b", 1, 60_000, store, 1)).allowed).toBe(true);
+  });
+
+  it("denies every call when the limit is 0 without running the script", async () => {
+    const result = await consumeRateLimit("bucket", 0, 60_000, store, 0);
+
+    expect(result).toEqual({ allowed: false, limit: 0, remaining: 0, retryAfterMs: 60_000 });
+    expect(store.eval).not.toHaveBeenCalled();
+  });
+
+  it("denies every call when the limit is negative", async () => {
+    expect((await consumeRateLimit("bucket", -1, 60_000, store, 0)).allowed).toBe(false);
+    expect(store.eval).not.toHaveBeenCalled();
+  });
+});
+
+describe("checkToolRateLimit", () => {
+  it("uses the default limit for users without a plan", async () => {
+    const result = await checkToolRateLimit("search", undefined, "user-1");
+
+    expect(result).toMatchObject({ allowed: true, limit: DEFAULT_TOOL_CALLS_PER_MINUTE });
+    expect(store.eval).toHaveBeenCalledWith(
+      expect.any(String),
+      1,
+      "mcp:ratelimit:search:user-1",
+      expect.any(Number),
+      60_000,
+      DEFAULT_TOOL_CALLS_PER_MINUTE,
+      expect.any(String)
+    );
+  });
+
+  it("uses the plan's toolCallsPerMinute", async () => {
+    mocks.getSubscriptionTier.mockResolvedValue("pro");
+
+    const result = await checkToolRateLimit("search", undefined, "user-1");
+
+    expect(result?.limit).toBe(PLAN_LIMITS.pro.toolCallsPerMinute);
+  });
+
+  it("prefers the tool's per-plan limit over its flat limit", async () => {
+    mocks.getSubscriptionTier.mockResolvedValue("pro");
+    const rateLimit = { limit: 5, plans: { pro: 2 }, windowMs: 1_000 };
+
+    expect((await checkToolRateLimit("export", rateLimit, "user-1"))?.limit).toBe(2);
+
+    mocks.getSubscriptionTier.mockResolvedValue("basic");
+    expect((await checkToolRateLimit("export", rateLimit, "user-2"))?.limit).toBe(5);
+  });
+
+  it("denies a user's calls past the tool's limit, per tool and per user", async () => {
+    const rateLimit = { limit: 2 };
+
+    await checkToolRateLimit("export", rateLimit, "user-1");
+    await checkToolRateLimit("export", rateLimit, "user-1");
+
+    expect(await checkToolRateLimit("export", rateLimit, "user-1")).toMatchObject({ allowed: false, remaining: 0 });
+    expect((await checkToolRateLimit("search", rateLimit, "user-1"))?.allowed).toBe(true);
+    expect((await checkToolRateLimit("export", rateLimit, "user-2"))?.allowed).toBe(true);
+  });
+
+  it("denies a plan whose limit is 0 instead of failing open", async () => {
+    mocks.getSubscriptionTier.mockResolvedValue("basic");
+
+    const result = await checkToolRateLimit("export", { plans: { basic: 0 } }, "user-1");
+
+    expect(result).toMatchObject({ allowed: false, limit: 0 });
+    expect(store.eval).not.toHaveBeenCalled();
+  });
+
+  it("doesn't limit plans with an unlimited allowance", async () => {
+    const result = await checkToolRateLimit("search", { limit: Infinity }, "user-1");
+
+    expect(result).toBeNull();
+    expect(store.eval).not.toHaveBeenCalled();
+  });
+
+  it("skips tools that opt out and disabled rate limiting", async () => {
+    expect(await checkToolRateLimit("search", false, "user-1")).toBeNull();
+
+    vi.stubEnv("MCP_RATE_LIMIT_ENABLED", "false");
+    expect(await checkToolRateLimit("search", undefined, "user-1")).toBeNull();
+    expect(store.eval).not.toHaveBeenCalled();
+  });
+
+  it("fails open when Redis is unavailable", async () => {
+    const logError = vi.spyOn(logger, "error").mockImplementation(() => logger);
+    vi.mocked(store.eval).mockRejectedValueOnce(new Error("connect ECONNREFUSED"));
+
+    expect(await checkToolRateLimit("search", undefined, "user-1")).toBeNull();
+    expect(logError).toHaveBeenCalledWith(expect.stringContaining("Rate limiter unavailable"), expect.anything());
+  });
+});
@@ -0,0 +1,249 @@
+// @vitest-environment node
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import type { McpSession } from "@/lib/auth/mcp-auth";
+import {
+  createJsonContent,
+  defineResource,
+  registerResources,
+  RESOURCE_PAGE_SIZE,
+  type ResourceDefinition,
+} from "@/lib/mcp/resource-registry";
+import { pinMcpRequestContext, runWithMcpRequestContext, type McpRequestContext } from "@/lib/mcp/request-context";
+import { publishResourceUpdated } from "@/lib/mcp/resource-notifications";
+
+vi.mock("ioredis", async () => {
+  const { default: RedisMock } = await import("ioredis-mock");
+  return { default: RedisMock, Redis: RedisMock };
+});
+
+const ALICE: McpSession = { userId: "alice", sessionId: "session-alice", scopes: [] };
+
+const noteResource = defineResource({
+  name: "note",
+  title: "Note",
+  description: "A note owned by the user",
+  uri: "app://user/{userId}/notes/{noteId}",
+  mimeType: "application/json",
+  authorize: ({ userId }, { session }) => userId === session.userId,
+  list: async ({ session }) =>
+    ["first", "second"].map((noteId) => ({ uri: `app://user/${session.userId}/notes/${noteId}`, name: noteId })),
+  read: async ({ userId, noteId }) => (noteId === "missing" ? null : createJsonContent({ userId, noteId })),
+});
+
+const statusResource = defineResource({
+  name: "status",
+  title: "Status",
+  description: "Service status, readable without signing in",
+  uri: "app://status",
+  mimeType: "text/plain",
+  auth: { required: false },
+  read: async () => ({ text: "ok" }),
+});
+
+const accountResource = defineResource({
+  name: "account",
+  title: "Account",
+  description: "The signed-in user's account",
+  uri: "app://account",
+  mimeType: "application/json",
+  read: async (_variables, { session }) => createJsonContent({ userId: session.userId }),
+});
+
+const adminResource = defineResource({
+  name: "admin",
+  title: "Admin",
+  description: "Only listed for admins",
+  uri: "app://admin",
+  mimeType: "application/json",
+  authorize: (_variables, { session }) => session.scopes.includes("admin"),
+  read: async () => createJsonContent({}),
+});
+
+const clients: Client[] = [];
+
+/**
+ * Connect a client to a server whose requests all run with the given context
+ */
+async function connect(
+  resources: readonly ResourceDefinition[],
+  context: Partial<McpRequestContext> = {}
+): Promise<Client> {
+  const server = new McpServer({ name: "test", version: "0.0.0" });
+  registerResources(server, resources);
+  runWithMcpRequestContext(
+    { session: ALICE, transport: "streamable-http", requestId: "request-1", ...context },
+    () => pinMcpRequestContext(server)
+  );
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: "test-client", version: "0.0.0" });
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+  clients.push(client);
+  return client;
+}
+
+afterEach(async () => {
+  await Promise.all(clients.splice(0).map((client) => client.close()));
+});
+
+describe("registerResources", () => {
+  describe("resources/read", () => {
+    it("matches URI templates and passes their variables to the handler", async () => {
+      const client = await connect([noteResource]);
+
+      const result = await client.readResource({ uri: "app://user/alice/notes/first" });
+
+      expect(result.contents).toEqual([
+        {
+          uri: "app://user/alice/notes/first",
+          mimeType: "application/json",
+          text: JSON.stringify({ userId: "alice", noteId: "first" }, null, 2),
+        },
+      ]);
+    });
+
+    it("reads fixed URIs with the caller's session", async () => {
+      const client = await connect([accountResource]);
+
+      const result = await client.readResource({ uri: "app://account" });
+
+      expect(result.contents).toEqual([expect.objectContaining({ text: JSON.stringify({ userId: "alice" }, null, 2) })]);
+    });
+
+    it("denies access when authorize rejects the template variables", async () => {
+      const client = await connect([noteResource]);
+
+      await expect(client.readResource({ uri: "app://user/bob/notes/first" })).rejects.toThrow(
+        "Access denied to app://user/bob/notes/first"
+      );
+    });
+
+    it("requires a session unless the resource opts out", async () => {
+      const client = await connect([accountResource, statusResource], { session: null });
+
+      await expect(client.readResource({ uri: "app://account" })).rejects.toThrow(
+        "Authentication required to access app://account"
+      );
+      expect((await client.readResource({ uri: "app://status" })).contents).toEqual([
+        { uri: "app://status", mimeType: "text/plain", text: "ok" },
+      ]);
+    });
+
+    it("reports resources the handler can't find", async () => {
+      const client = await connect([noteResource]);
+
+      await expect(client.readResource({ uri: "app://user/alice/notes/missing" })).rejects.toThrow(
+        "Resource app://user/alice/notes/missing not found"
+      );
+    });
+  });
+
+  describe("resources/list", () => {
+    it("lists fixed URIs and the entries of each template the session may see", async () => {
+      const client = await connect([statusResource, accountResource, adminResource, noteResource]);
+
+      const { resources, nextCursor } = await client.listResources();
+
+      expect(resources.map((resource) => resource.uri)).toEqual([
+        "app://status",
+        "app://account",
+        "app://user/alice/notes/first",
+        "app://user/alice/notes/second",
+      ]);
+      expect(resources[2]).toMatchObject({ name: "first", title: "Note", mimeType: "application/json" });
+      expect(nextCursor).toBeUndefined();
+    });
+
+    it("only lists anonymous resources without a session", async () => {
+      const client = await connect([statusResource, accountResource, noteResource], { session: null });
+
+      const { resources } = await client.listResources();
+
+      expect(resources.map((resource) => resource.uri)).toEqual(["app://status"]);
+    });
+
+    it("pages through the list with a cursor", async () => {
+      const total = RESOURCE_PAGE_SIZE * 2 + 5;
+      const manyNotes = defineResource({
+        ...noteResource,
+        list: async ({ session }) =>
+          Array.from({ length: total }, (_, i) => ({ uri: `app://user/${session.userId}/notes/${i}`, name: `note-${i}` })),
+      });
+      const client = await connect([manyNotes]);
+
+      const pages = [];
+      let cursor: string | undefined;
+      do {
+        const page = await client.listResources(cursor ? { cursor } : undefined);
+        pages.push(page.resources);
+        cursor = page.nextCursor;
+      } while (cursor);
+
+      expect(pages.map((page) => page.length)).toEqual([RESOURCE_PAGE_SIZE, RESOURCE_PAGE_SIZE, 5]);
+      expect(pages.flat().map((resource) => resource.name)).toEqual(
+        Array.from({ length: total }, (_, i) => `note-${i}`)
+      );
+    });
+
+    it("rejects an invalid cursor", async () => {
+      const client = await connect([noteResource]);
+
+      await expect(client.listResources({ cursor: "not-a-cursor" })).rejects.toThrow("Invalid cursor");
+    });
+  });
+
+  describe("resources/subscribe", () => {
+    it("is only available over SSE", async () => {
+      const client = await connect([noteResource]);
+
+      await expect(client.subscribeResource({ uri: "app://user/alice/notes/first" })).rejects.toThrow(
+        "Resource subscriptions are only available over SSE"
+      );
+    });
+
+    it("notifies the subscriber when the resource changes", async () => {
+      const client = await connect([noteResource], { transport: "sse" });
+      const updated = vi.fn();
+      client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) =>
+        updated(notification.params.uri)
+      );
+
+      await client.subscribeResource({ uri: "app://user/alice/notes/first" });
+      await publishResourceUpdated({ uri: "app://user/alice/notes/first", userId: "alice" });
+      await publishResourceUpdated({ uri: "app://user/alice/notes/second", userId: "alice" });
+
+      await vi.waitFor(() => expect(updated).toHaveBeenCalledWith("app://user/alice/notes/first"));
+      expect(updated).toHaveBeenCalledTimes(1);
+    });
+
+    it("stops notifying after unsubscribe", async () => {
+      const client = await connect([noteResource], { transport: "sse" });
+      const updated = vi.fn();
+      client.setNotificationHandler(ResourceUpdatedNotificationSchema, updated);
+
+      await client.subscribeResource({ uri: "app://user/alice/notes/first" });
+      await client.unsubscribeResource({ uri: "app://user/alice/notes/first" });
+      await publishResourceUpdated({ uri: "app://user/alice/notes/first", userId: "alice" });
+      // Any notification would arrive before the response to a later request
+      await client.ping();
+
+      expect(updated).not.toHaveBeenCalled();
+    });
+
+    it("denies subscriptions to resources the session can't read", async () => {
+      const client = await connect([noteResource], { transport: "sse" });
+
+      await expect(client.subscribeResource({ uri: "app://user/bob/notes/first" })).rejects.toThrow(
+        "Access denied to app://user/bob/notes/first"
+      );
+      await expect(client.subscribeResource({ uri: "app://unknown" })).rejects.toThrow(
+        "Resource app://unknown not found"
+      );
+    });
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { initializeMcpServer, MCP_SERVER_OPTIONS } from "@/lib/mcp/server";
+import { widgetResources } from "@/lib/mcp/registry";
+import { tools } from "@/lib/mcp/tools";
+import { getWidgetUri } from "@/lib/mcp/widgets";
+
+describe("initializeMcpServer", () => {
+  it("registers every tool, prompt and resource without conflicts", () => {
+    const server = new McpServer({ name: "test", version: "0.0.0" }, MCP_SERVER_OPTIONS);
+
+    expect(() => initializeMcpServer(server)).not.toThrow();
+  });
+});
+
+describe("widgetResources", () => {
+  it("registers a widget shared by several tools once", () => {
+    const uris = widgetResources(tools).map((resource) => resource.uri);
+    const billingLinkTools = tools.filter((tool) => tool.widget === "billing-link");
+
+    expect(billingLinkTools.length).toBeGreaterThan(1);
+    expect(new Set(uris).size).toBe(uris.length);
+    expect(uris.filter((uri) => uri === getWidgetUri("billing-link"))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,170 @@
+// @vitest-environment node
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { closeTestDb, migrateTestDb, resetTestDb, testDb } from "@/tests/test-db";
+import { emailDelivery, user } from "@/lib/db/schema";
+import {
+  createDisabledTransport,
+  createEmailService,
+  createMemoryTransport,
+  getDefaultEmailTransport,
+} from "@/lib/services/email-service";
+
+vi.mock("@/lib/db", async () => (await import("@/tests/test-db")).testDbModule);
+
+const USER_ID = "user-1";
+const WELCOME = { name: "Ada", planDisplayName: "Pro", trialEnd: null };
+
+async function getDeliveries() {
+  return testDb.select().from(emailDelivery).orderBy(emailDelivery.createdAt);
+}
+
+beforeAll(() => migrateTestDb());
+
+beforeEach(async () => {
+  await resetTestDb();
+  vi.unstubAllEnvs();
+  await testDb.insert(user).values({ id: USER_ID, name: "Ada Lovelace", email: "ada@example.com" });
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await closeTestDb();
+});
+
+describe("createEmailService", () => {
+  it("renders the template, sends it and records the delivery", async () => {
+    const transport = createMemoryTransport();
+    const email = createEmailService({ transport, from: "Test <test@example.com>" });
+
+    expect(await email.send("ada@example.com", "welcome", WELCOME, { dedupeKey: "welcome:sub-1" })).toBe("sent");
+
+    expect(transport.sent).toEqual([
+      expect.objectContaining({
+        template: "welcome",
+        from: "Test <test@example.com>",
+        to: "ada@example.com",
+        subject: expect.stringContaining("Pro"),
+        idempotencyKey: "welcome:sub-1",
+      }),
+    ]);
+    expect(await getDeliveries()).toMatchObject([
+      { template: "welcome", dedupeKey: "welcome:sub-1", status: "sent", transport: "memory", messageId: "memory-1" },
+    ]);
+  });
+
+  it("sends an email once per dedupe key", async () => {
+    const transport = createMemoryTransport();
+    const email = createEmailService({ transport });
+
+    await email.send("ada@example.com", "welcome", WELCOME, { dedupeKey: "welcome:sub-1" });
+    expect(await email.send("ada@example.com", "welcome", WELCOME, { dedupeKey: "welcome:sub-1" })).toBe("duplicate");
+    await email.send("ada@example.com", "welcome", WELCOME, { dedupeKey: "welcome:sub-2" });
+
+    expect(transport.sent).toHaveLength(2);
+    expect(await getDeliveries()).toHaveLength(2);
+  });
+
+  it("sends emails without a dedupe key every time", async () => {
+    const transport = createMemoryTransport();
+    const email = createEmailService({ transport });
+
+    await email.send("ada@example.com", "welcome", WELCOME);
+    await email.send("ada@example.com", "welcome", WELCOME);
+
+    expect(transport.sent).toHaveLength(2);
+  });
+
+  it("records a failed send and sends it again on the next call with the same key", async () => {
+    const transport = createMemoryTransport();
+    vi.spyOn(transport, "send").mockRejectedValueOnce(new Error("Resend is down"));
+    const email = createEmailService({ transport });
+
+    await expect(email.send("ada@example.com", "welcome", WELCOME, { dedupeKey: "welcome:sub-1" })).rejects.toThrow(
+      "Resend is down"
+    );
+    expect(await getDeliveries()).toMatchObject([{ status: "failed", lastError: "Resend is down", sentAt: null }]);
+
+    expect(await email.send("ada@example.com", "welcome", WELCOME, { dedupeKey: "welcome:sub-1" })).toBe("sent");
+    expect(await getDeliveries()).toMatchObject([{ status: "sent", lastError: null }]);
+    expect(transport.send).toHaveBeenCalledTimes(2);
+  });
+
+  it("doesn't resend an email another call is still sending", async () => {
+    const transport = createMemoryTransport();
+    const email = createEmailService({ transport });
+    await testDb.insert(emailDelivery).values({
+      template: "welcome",
+      to: "ada@example.com",
+      dedupeKey: "welcome:sub-1",
+      status: "pending",
+      transport: "memory",
+    });
+
+    expect(await email.send("ada@example.com", "welcome", WELCOME, { dedupeKey: "welcome:sub-1" })).toBe("duplicate");
+    expect(transport.sent).toHaveLength(0);
+  });
+
+  it("records emails as skipped while delivery is disabled, without taking their dedupe key", async () => {
+    const disabled = createEmailService({ transport: createDisabledTransport() });
+
+    expect(await disabled.send("ada@example.com", "welcome", WELCOME, { dedupeKey: "welcome:sub-1" })).toBe("skipped");
+    expect(await getDeliveries()).toMatchObject([{ status: "skipped", transport: "disabled", dedupeKey: null }]);
+
+    // Once a transport is configured, the email still goes out
+    const transport = createMemoryTransport();
+    const enabled = createEmailService({ transport });
+    expect(await enabled.send("ada@example.com", "welcome", WELCOME, { dedupeKey: "welcome:sub-1" })).toBe("sent");
+    expect(transport.sent).toHaveLength(1);
+  });
+
+  describe("sendToUser", () => {
+    it("sends to the user's address with their name", async () => {
+      const transport = createMemoryTransport();
+      const email = createEmailService({ transport });
+
+      const outcome = await email.sendToUser(USER_ID, "trial_expired", { planDisplayName: "Pro" });
+
+      expect(outcome).toBe("sent");
+      expect(transport.sent[0].to).toBe("ada@example.com");
+      expect(transport.sent[0].text).toContain("Ada Lovelace");
+      expect(await getDeliveries()).toMatchObject([{ userId: USER_ID }]);
+    });
+
+    it("skips users that don't exist", async () => {
+      const transport = createMemoryTransport();
+      const email = createEmailService({ transport });
+
+      expect(await email.sendToUser("user-2", "trial_expired", { planDisplayName: "Pro" })).toBe("no_recipient");
+      expect(transport.sent).toHaveLength(0);
+    });
+  });
+});
+
+describe("getDefaultEmailTransport", () => {
+  it("disables delivery in production without a Resend key", () => {
+    vi.stubEnv("NODE_ENV", "production");
+    vi.stubEnv("RESEND_API_KEY", "");
+    vi.stubEnv("EMAIL_TRANSPORT", "");
+
+    expect(getDefaultEmailTransport()).toMatchObject({ name: "disabled", disabled: true });
+  });
+
+  it("uses Resend when a key is set", () => {
+    vi.stubEnv("RESEND_API_KEY", "re_test");
+    vi.stubEnv("EMAIL_TRANSPORT", "");
+
+    expect(getDefaultEmailTransport().name).toBe("resend");
+  });
+
+  it("honours EMAIL_TRANSPORT", () => {
+    vi.stubEnv("EMAIL_TRANSPORT", "memory");
+
+    expect(getDefaultEmailTransport().name).toBe("memory");
+  });
+
+  it("rejects an unknown EMAIL_TRANSPORT", () => {
+    vi.stubEnv("EMAIL_TRANSPORT", "smtp");
+
+    expect(() => getDefaultEmailTransport()).toThrow('Unknown EMAIL_TRANSPORT "smtp"');
+  });
+});
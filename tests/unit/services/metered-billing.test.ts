@@ -0,0 +1,259 @@
+// @vitest-environment node
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import type Stripe from "stripe";
+import { closeTestDb, migrateTestDb, resetTestDb, testDb } from "@/tests/test-db";
+import { subscription, usageEvent, usageReport, user } from "@/lib/db/schema";
+import {
+  reconcileMeteredUsage,
+  reportMeteredUsage,
+  type MeteredBillingClient,
+} from "@/lib/services/metered-billing";
+
+vi.mock("@/lib/db", async () => (await import("@/tests/test-db")).testDbModule);
+
+const USER_ID = "user-1";
+const CUSTOMER_ID = "cus_test";
+
+// Windows up to 12:00 have closed and settled
+const NOW = new Date("2026-03-10T12:10:00Z");
+
+function createStubClient() {
+  return {
+    billing: {
+      meterEvents: {
+        create: vi.fn<MeteredBillingClient["billing"]["meterEvents"]["create"]>(async () => ({})),
+      },
+      meters: {
+        listEventSummaries: vi.fn(async () => ({ data: [] as Stripe.Billing.MeterEventSummary[] })),
+      },
+    },
+  } satisfies MeteredBillingClient;
+}
+
+function stripeError(statusCode: number, message = "Stripe error") {
+  return Object.assign(new Error(message), { statusCode });
+}
+
+async function recordUsage(at: string, units: number) {
+  await testDb.insert(usageEvent).values({ userId: USER_ID, tool: "search", units, createdAt: new Date(at) });
+}
+
+async function getReports() {
+  return testDb.select().from(usageReport).orderBy(usageReport.windowStart, usageReport.createdAt);
+}
+
+let client: ReturnType<typeof createStubClient>;
+
+beforeAll(() => migrateTestDb());
+
+beforeEach(async () => {
+  await resetTestDb();
+  vi.stubEnv("STRIPE_METERED_PRICE_ID", "price_metered");
+  vi.stubEnv("STRIPE_METER_ID", "");
+  client = createStubClient();
+
+  await testDb.insert(user).values({ id: USER_ID, name: "Test User", email: "user@example.com" });
+  await testDb.insert(subscription).values({
+    id: "sub-1",
+    plan: "metered",
+    referenceId: USER_ID,
+    stripeCustomerId: CUSTOMER_ID,
+    status: "active",
+    periodStart: new Date("2026-03-10T00:00:00Z"),
+  });
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await closeTestDb();
+});
+
+describe("reportMeteredUsage", () => {
+  it("reports each closed hourly window with its identifier as the idempotency key", async () => {
+    await recordUsage("2026-03-10T10:15:00Z", 3);
+    await recordUsage("2026-03-10T10:45:00Z", 2);
+    await recordUsage("2026-03-10T11:30:00Z", 4);
+    // Window still open
+    await recordUsage("2026-03-10T12:05:00Z", 1);
+
+    const run = await reportMeteredUsage({ client, now: NOW });
+
+    expect(run).toEqual({ queued: 2, reported: 2, retrying: 0, failed: 0 });
+    expect(client.billing.meterEvents.create.mock.calls).toEqual([
+      [
+        {
+          event_name: "mcp_tool_usage",
+          identifier: `usage:${USER_ID}:2026-03-10T10:00:00.000Z`,
+          timestamp: Date.parse("2026-03-10T11:00:00Z") / 1000 - 1,
+          payload: { stripe_customer_id: CUSTOMER_ID, value: "5" },
+        },
+        { idempotencyKey: `usage:${USER_ID}:2026-03-10T10:00:00.000Z`, maxNetworkRetries: 2 },
+      ],
+      [
+        expect.objectContaining({
+          identifier: `usage:${USER_ID}:2026-03-10T11:00:00.000Z`,
+          payload: { stripe_customer_id: CUSTOMER_ID, value: "4" },
+        }),
+        { idempotencyKey: `usage:${USER_ID}:2026-03-10T11:00:00.000Z`, maxNetworkRetries: 2 },
+      ],
+    ]);
+    expect((await getReports()).map((report) => report.status)).toEqual(["reported", "reported"]);
+  });
+
+  it("doesn't report a window twice", async () => {
+    await recordUsage("2026-03-10T10:15:00Z", 3);
+
+    await reportMeteredUsage({ client, now: NOW });
+    const rerun = await reportMeteredUsage({ client, now: new Date(NOW.getTime() + 60_000) });
+
+    expect(rerun).toEqual({ queued: 0, reported: 0, retrying: 0, failed: 0 });
+    expect(client.billing.meterEvents.create).toHaveBeenCalledTimes(1);
+    expect(await getReports()).toHaveLength(1);
+  });
+
+  it("only reports usage for subscribers on metered plans", async () => {
+    await testDb.update(subscription).set({ plan: "pro" }).where(eq(subscription.id, "sub-1"));
+    await recordUsage("2026-03-10T10:15:00Z", 3);
+
+    expect(await reportMeteredUsage({ client, now: NOW })).toEqual({ queued: 0, reported: 0, retrying: 0, failed: 0 });
+    expect(client.billing.meterEvents.create).not.toHaveBeenCalled();
+  });
+
+  it("does nothing until the metered plan has a price", async () => {
+    vi.stubEnv("STRIPE_METERED_PRICE_ID", "");
+    await recordUsage("2026-03-10T10:15:00Z", 3);
+
+    expect(await reportMeteredUsage({ client, now: NOW })).toEqual({ queued: 0, reported: 0, retrying: 0, failed: 0 });
+    expect(await getReports()).toHaveLength(0);
+  });
+
+  it("retries a failed report on a later run with the same identifier, once its backoff has passed", async () => {
+    await recordUsage("2026-03-10T10:15:00Z", 3);
+    client.billing.meterEvents.create.mockRejectedValueOnce(stripeError(500));
+
+    expect(await reportMeteredUsage({ client, now: NOW })).toEqual({ queued: 1, reported: 0, retrying: 1, failed: 0 });
+    const [pending] = await getReports();
+    expect(pending).toMatchObject({ status: "pending", attempts: 1, lastError: "Stripe error" });
+    expect(pending.nextAttemptAt).toEqual(new Date(NOW.getTime() + 60_000));
+
+    // Not due yet
+    await reportMeteredUsage({ client, now: new Date(NOW.getTime() + 30_000) });
+    expect(client.billing.meterEvents.create).toHaveBeenCalledTimes(1);
+
+    expect(await reportMeteredUsage({ client, now: pending.nextAttemptAt })).toMatchObject({ reported: 1 });
+    const [first, retry] = client.billing.meterEvents.create.mock.calls;
+    expect(retry[0].identifier).toBe(first[0].identifier);
+    expect(retry[1]).toEqual(first[1]);
+    expect(await getReports()).toMatchObject([{ status: "reported", attempts: 2, lastError: null }]);
+  });
+
+  it("backs off exponentially and gives up after 8 attempts", async () => {
+    await recordUsage("2026-03-10T10:15:00Z", 3);
+    client.billing.meterEvents.create.mockRejectedValue(stripeError(503));
+
+    const backoffMinutes: number[] = [];
+    let now = NOW;
+    let run = await reportMeteredUsage({ client, now });
+    for (let attempt = 1; attempt < 8; attempt++) {
+      const [report] = await getReports();
+      backoffMinutes.push((report.nextAttemptAt.getTime() - now.getTime()) / 60_000);
+      now = report.nextAttemptAt;
+      run = await reportMeteredUsage({ client, now });
+    }
+
+    expect(backoffMinutes).toEqual([1, 2, 4, 8, 16, 32, 64]);
+    expect(run).toMatchObject({ retrying: 0, failed: 1 });
+    expect(await getReports()).toMatchObject([{ status: "failed", attempts: 8 }]);
+    expect(client.billing.meterEvents.create).toHaveBeenCalledTimes(8);
+  });
+
+  it("gives up right away when Stripe rejects the report", async () => {
+    await recordUsage("2026-03-10T10:15:00Z", 3);
+    client.billing.meterEvents.create.mockRejectedValueOnce(stripeError(400, "No such customer"));
+
+    expect(await reportMeteredUsage({ client, now: NOW })).toMatchObject({ retrying: 0, failed: 1 });
+    expect(await getReports()).toMatchObject([{ status: "failed", attempts: 1, lastError: "No such customer" }]);
+  });
+
+  it.each([409, 429])("retries a %i response", async (statusCode) => {
+    await recordUsage("2026-03-10T10:15:00Z", 3);
+    client.billing.meterEvents.create.mockRejectedValueOnce(stripeError(statusCode));
+
+    expect(await reportMeteredUsage({ client, now: NOW })).toMatchObject({ retrying: 1, failed: 0 });
+  });
+});
+
+describe("reconcileMeteredUsage", () => {
+  it("queues a correction for usage recorded after its window was reported", async () => {
+    await recordUsage("2026-03-10T10:15:00Z", 5);
+    await reportMeteredUsage({ client, now: NOW });
+    // A slow tool call finishing after the report went out
+    await recordUsage("2026-03-10T10:59:00Z", 2);
+
+    const [result] = await reconcileMeteredUsage({ client, now: NOW });
+
+    expect(result).toMatchObject({
+      userId: USER_ID,
+      recordedUnits: 7,
+      reportedUnits: 5,
+      failedUnits: 0,
+      correctedUnits: 2,
+      stripeUnits: null,
+    });
+    const reports = await getReports();
+    expect(reports).toHaveLength(2);
+    expect(reports[1]).toMatchObject({
+      identifier: `usage:${USER_ID}:2026-03-10T10:00:00.000Z:+5`,
+      units: 2,
+      status: "pending",
+    });
+
+    // The correction goes out with the next report run
+    expect(await reportMeteredUsage({ client, now: NOW })).toMatchObject({ queued: 0, reported: 1 });
+    expect(client.billing.meterEvents.create).toHaveBeenLastCalledWith(
+      expect.objectContaining({ payload: { stripe_customer_id: CUSTOMER_ID, value: "2" } }),
+      { idempotencyKey: `usage:${USER_ID}:2026-03-10T10:00:00.000Z:+5`, maxNetworkRetries: 2 }
+    );
+  });
+
+  it("doesn't queue the same correction twice", async () => {
+    await recordUsage("2026-03-10T10:15:00Z", 5);
+    await reportMeteredUsage({ client, now: NOW });
+    await recordUsage("2026-03-10T10:59:00Z", 2);
+
+    await reconcileMeteredUsage({ client, now: NOW });
+    const [rerun] = await reconcileMeteredUsage({ client, now: NOW });
+
+    expect(rerun.correctedUnits).toBe(0);
+    expect(await getReports()).toHaveLength(2);
+  });
+
+  it("reports units in failed reports", async () => {
+    await recordUsage("2026-03-10T10:15:00Z", 5);
+    client.billing.meterEvents.create.mockRejectedValueOnce(stripeError(400));
+    await reportMeteredUsage({ client, now: NOW });
+
+    const [result] = await reconcileMeteredUsage({ client, now: NOW });
+
+    expect(result).toMatchObject({ recordedUnits: 5, reportedUnits: 0, failedUnits: 5, correctedUnits: 0 });
+  });
+
+  it("compares totals with Stripe's meter when STRIPE_METER_ID is set", async () => {
+    vi.stubEnv("STRIPE_METER_ID", "mtr_test");
+    client.billing.meters.listEventSummaries.mockResolvedValue({
+      data: [{ aggregated_value: 3 } as Stripe.Billing.MeterEventSummary],
+    });
+    await recordUsage("2026-03-10T10:15:00Z", 5);
+    await reportMeteredUsage({ client, now: NOW });
+
+    const [result] = await reconcileMeteredUsage({ client, now: NOW });
+
+    expect(result).toMatchObject({ reportedUnits: 5, stripeUnits: 3 });
+    expect(client.billing.meters.listEventSummaries).toHaveBeenCalledWith("mtr_test", {
+      customer: CUSTOMER_ID,
+      start_time: Date.parse("2026-03-10T00:00:00Z") / 1000,
+      end_time: Date.parse("2026-03-10T12:00:00Z") / 1000,
+    });
+  });
+});
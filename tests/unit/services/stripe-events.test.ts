@@ -0,0 +1,336 @@
+// @vitest-environment node
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import Stripe from "stripe";
+import { closeTestDb, migrateTestDb, resetTestDb, testDb } from "@/tests/test-db";
+import { stripeEvent } from "@/lib/db/schema";
+
+const WEBHOOK_SECRET = "whsec_test_secret";
+
+// The Stripe plugin is only registered with a Stripe client (lib/services/stripe-client.ts)
+vi.hoisted(() => {
+  vi.stubEnv("STRIPE_SECRET_KEY", "sk_test_123");
+  vi.stubEnv("STRIPE_WEBHOOK_SECRET", "whsec_test_secret");
+});
+
+vi.mock("@/lib/db", async () => (await import("@/tests/test-db")).testDbModule);
+// Better Auth keeps its rate limits in Redis (secondaryStorage in lib/auth/index.ts)
+vi.mock("ioredis", () => {
+  class MemoryRedis {
+    private values = new Map<string, string>();
+    on() {
+      return this;
+    }
+    async get(key: string) {
+      return this.values.get(key) ?? null;
+    }
+    async setex(key: string, _seconds: number, value: string) {
+      this.values.set(key, value);
+      return "OK";
+    }
+    async del(key: string) {
+      return Number(this.values.delete(key));
+    }
+  }
+  return { default: MemoryRedis, Redis: MemoryRedis };
+});
+vi.mock("@/lib/services/subscription-emails", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/services/subscription-emails")>()),
+  sendPaymentFailedEmail: vi.fn(async () => "sent" as const),
+}));
+vi.mock("@/lib/utils/entitlements", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/utils/entitlements")>()),
+  syncSubscriptionAddOns: vi.fn(async () => {}),
+}));
+
+const { defineStripeEventHook, handleStripeEvent, listStripeEvents, replayStripeEvents } = await import(
+  "@/lib/services/stripe-events"
+);
+
+const CREATED = Date.parse("2026-03-10T12:00:00Z") / 1000;
+
+/**
+ * Minimal event as Stripe sends it; only the fields the app reads are filled in
+ */
+function eventFixture<T extends Stripe.Event.Type>(id: string, type: T, object: Record<string, unknown>): Stripe.Event {
+  return {
+    id,
+    object: "event",
+    type,
+    api_version: "2025-10-29.clover",
+    created: CREATED,
+    livemode: false,
+    pending_webhooks: 1,
+    request: { id: null, idempotency_key: null },
+    data: { object },
+  } as unknown as Stripe.Event;
+}
+
+function createHooks() {
+  const first = vi.fn<(event: Stripe.Event) => Promise<void>>(async () => {});
+  const second = vi.fn<(event: Stripe.Event) => Promise<void>>(async () => {});
+  const hooks = [
+    defineStripeEventHook({ name: "first", events: ["customer.created"], run: first }),
+    defineStripeEventHook({ name: "second", events: ["customer.created"], run: second }),
+    defineStripeEventHook({ name: "other", events: ["invoice.paid"], run: vi.fn() }),
+  ];
+  return { hooks, first, second };
+}
+
+async function getStoredEvent(id: string) {
+  const [row] = await testDb.select().from(stripeEvent).where(eq(stripeEvent.id, id));
+  return row;
+}
+
+beforeAll(() => migrateTestDb());
+
+beforeEach(async () => {
+  await resetTestDb();
+  vi.clearAllMocks();
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await closeTestDb();
+});
+
+describe("handleStripeEvent", () => {
+  it("stores the event and runs its matching hooks", async () => {
+    const { hooks, first, second } = createHooks();
+    const event = eventFixture("evt_1", "customer.created", { id: "cus_1", object: "customer" });
+
+    expect(await handleStripeEvent(event, hooks)).toBe("processed");
+
+    expect(first).toHaveBeenCalledWith(event);
+    expect(second).toHaveBeenCalledWith(event);
+    expect(hooks[2].run).not.toHaveBeenCalled();
+    expect(await getStoredEvent("evt_1")).toMatchObject({
+      type: "customer.created",
+      status: "processed",
+      completedHooks: ["first", "second"],
+      attempts: 1,
+      deliveries: 1,
+      livemode: false,
+      stripeCreatedAt: new Date(CREATED * 1000),
+      payload: event,
+    });
+  });
+
+  it("skips redeliveries of a processed event", async () => {
+    const { hooks, first } = createHooks();
+    const event = eventFixture("evt_1", "customer.created", { id: "cus_1", object: "customer" });
+
+    await handleStripeEvent(event, hooks);
+    expect(await handleStripeEvent(event, hooks)).toBe("duplicate");
+    expect(await handleStripeEvent(event, hooks)).toBe("duplicate");
+
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(await getStoredEvent("evt_1")).toMatchObject({ status: "processed", attempts: 1, deliveries: 3 });
+  });
+
+  it("leaves an event to the delivery that claimed it", async () => {
+    const { hooks, first } = createHooks();
+    const event = eventFixture("evt_1", "customer.created", { id: "cus_1", object: "customer" });
+
+    let finish!: () => void;
+    first.mockImplementationOnce(() => new Promise<void>((resolve) => (finish = resolve)));
+    const processing = handleStripeEvent(event, hooks);
+    await vi.waitFor(() => expect(first).toHaveBeenCalled());
+
+    expect(await handleStripeEvent(event, hooks)).toBe("in_progress");
+
+    finish();
+    expect(await processing).toBe("processed");
+    expect(first).toHaveBeenCalledTimes(1);
+  });
+
+  it("fails the delivery when a hook throws, and only reruns unfinished hooks on redelivery", async () => {
+    const { hooks, first, second } = createHooks();
+    const event = eventFixture("evt_1", "customer.created", { id: "cus_1", object: "customer" });
+    second.mockRejectedValueOnce(new Error("provisioning down"));
+
+    await expect(handleStripeEvent(event, hooks)).rejects.toThrow("provisioning down");
+    expect(await getStoredEvent("evt_1")).toMatchObject({
+      status: "failed",
+      completedHooks: ["first"],
+      lastError: "second: provisioning down",
+    });
+
+    expect(await handleStripeEvent(event, hooks)).toBe("processed");
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(2);
+    expect(await getStoredEvent("evt_1")).toMatchObject({
+      status: "processed",
+      completedHooks: ["first", "second"],
+      attempts: 2,
+      deliveries: 2,
+      lastError: null,
+    });
+  });
+});
+
+describe("replayStripeEvents", () => {
+  it("reruns the unfinished hooks of failed events from the stored payload", async () => {
+    const { hooks, first, second } = createHooks();
+    const event = eventFixture("evt_1", "customer.created", { id: "cus_1", object: "customer" });
+    second.mockRejectedValueOnce(new Error("provisioning down"));
+    await handleStripeEvent(event, hooks).catch(() => {});
+
+    const results = await replayStripeEvents({ hooks });
+
+    expect(results).toEqual([{ id: "evt_1", type: "customer.created", outcome: "processed" }]);
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenLastCalledWith(event);
+    expect(await getStoredEvent("evt_1")).toMatchObject({ status: "processed", attempts: 2, deliveries: 1 });
+
+    // Nothing left to replay
+    expect(await replayStripeEvents({ hooks })).toEqual([]);
+  });
+
+  it("reports events that fail again and keeps them replayable", async () => {
+    const { hooks, second } = createHooks();
+    second.mockRejectedValue(new Error("provisioning down"));
+    await handleStripeEvent(eventFixture("evt_1", "customer.created", { id: "cus_1" }), hooks).catch(() => {});
+
+    expect(await replayStripeEvents({ hooks })).toEqual([
+      { id: "evt_1", type: "customer.created", outcome: "failed", error: "provisioning down" },
+    ]);
+    expect(await listStripeEvents({ status: "failed" })).toMatchObject([{ id: "evt_1", attempts: 2 }]);
+  });
+
+  it("only replays the requested events, oldest first", async () => {
+    const { hooks, second } = createHooks();
+    second.mockRejectedValue(new Error("provisioning down"));
+    for (const [id, offset] of [["evt_new", 60], ["evt_old", 0], ["evt_skipped", 30]] as const) {
+      const event = { ...eventFixture(id, "customer.created", { id: "cus_1" }), created: CREATED + offset };
+      await handleStripeEvent(event as Stripe.Event, hooks).catch(() => {});
+    }
+    second.mockResolvedValue(undefined);
+
+    const results = await replayStripeEvents({ hooks, ids: ["evt_new", "evt_old"] });
+
+    expect(results.map((result) => result.id)).toEqual(["evt_old", "evt_new"]);
+    expect((await getStoredEvent("evt_skipped")).status).toBe("failed");
+  });
+
+  it("takes over events stuck processing, once the claim is stale", async () => {
+    const { hooks, first } = createHooks();
+    const event = eventFixture("evt_1", "customer.created", { id: "cus_1" });
+    const claimedAt = new Date("2026-03-10T12:00:00Z");
+    await testDb.insert(stripeEvent).values({
+      id: event.id,
+      type: event.type,
+      payload: event,
+      livemode: false,
+      stripeCreatedAt: new Date(CREATED * 1000),
+      status: "processing",
+      attempts: 1,
+      processingStartedAt: claimedAt,
+    });
+
+    expect(await replayStripeEvents({ hooks, now: new Date(claimedAt.getTime() + 5 * 60_000) })).toEqual([]);
+    expect(first).not.toHaveBeenCalled();
+
+    const results = await replayStripeEvents({ hooks, now: new Date(claimedAt.getTime() + 11 * 60_000) });
+    expect(results).toEqual([{ id: "evt_1", type: "customer.created", outcome: "processed" }]);
+    expect(first).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("Stripe webhook", () => {
+  const stripe = new Stripe("sk_test_123");
+  let handler: (request: Request) => Promise<Response>;
+  let sendPaymentFailedEmail: ReturnType<typeof vi.fn>;
+
+  beforeAll(async () => {
+    handler = (await import("@/lib/auth")).auth.handler;
+    sendPaymentFailedEmail = vi.mocked((await import("@/lib/services/subscription-emails")).sendPaymentFailedEmail);
+  });
+
+  /**
+   * Delivery of an event, signed like Stripe does with the webhook secret
+   */
+  function webhookRequest(event: Stripe.Event, secret = WEBHOOK_SECRET): Request {
+    const payload = JSON.stringify(event);
+    return new Request("http://localhost:3000/api/auth/stripe/webhook", {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        "stripe-signature": stripe.webhooks.generateTestHeaderString({ payload, secret }),
+      },
+      body: payload,
+    });
+  }
+
+  const paymentFailed = eventFixture("evt_payment_failed", "invoice.payment_failed", {
+    id: "in_1",
+    object: "invoice",
+    currency: "usd",
+    amount_due: 2000,
+    attempt_count: 1,
+    parent: { subscription_details: { subscription: "sub_1" } },
+  });
+
+  it("runs the hooks of a correctly signed event", async () => {
+    const response = await handler(webhookRequest(paymentFailed));
+
+    expect(response.status).toBe(200);
+    expect(sendPaymentFailedEmail).toHaveBeenCalledWith(paymentFailed.data.object);
+    expect(await getStoredEvent(paymentFailed.id)).toMatchObject({
+      status: "processed",
+      completedHooks: ["email-payment-failed"],
+    });
+  });
+
+  it("rejects events signed with another secret", async () => {
+    const response = await handler(webhookRequest(paymentFailed, "whsec_other_secret"));
+
+    expect(response.status).toBe(400);
+    expect(sendPaymentFailedEmail).not.toHaveBeenCalled();
+    expect(await getStoredEvent(paymentFailed.id)).toBeUndefined();
+  });
+
+  it("rejects events without a signature", async () => {
+    const request = webhookRequest(paymentFailed);
+    request.headers.delete("stripe-signature");
+
+    expect((await handler(request)).status).toBe(400);
+    expect(await getStoredEvent(paymentFailed.id)).toBeUndefined();
+  });
+
+  it("rejects a payload changed after signing", async () => {
+    const signed = webhookRequest(paymentFailed);
+    const tampered = new Request(signed.url, {
+      method: "POST",
+      headers: signed.headers,
+      body: JSON.stringify({ ...paymentFailed, id: "evt_forged" }),
+    });
+
+    expect((await handler(tampered)).status).toBe(400);
+    expect(await getStoredEvent("evt_forged")).toBeUndefined();
+  });
+
+  it("runs the hooks once when Stripe redelivers an event", async () => {
+    expect((await handler(webhookRequest(paymentFailed))).status).toBe(200);
+    expect((await handler(webhookRequest(paymentFailed))).status).toBe(200);
+
+    expect(sendPaymentFailedEmail).toHaveBeenCalledTimes(1);
+    expect(await getStoredEvent(paymentFailed.id)).toMatchObject({ status: "processed", deliveries: 2 });
+  });
+
+  it("fails the webhook when a hook fails, so Stripe redelivers, then replays it", async () => {
+    sendPaymentFailedEmail.mockRejectedValueOnce(new Error("email provider down"));
+
+    expect((await handler(webhookRequest(paymentFailed))).status).toBe(400);
+    expect(await getStoredEvent(paymentFailed.id)).toMatchObject({ status: "failed" });
+
+    expect(await replayStripeEvents()).toEqual([
+      { id: paymentFailed.id, type: "invoice.payment_failed", outcome: "processed" },
+    ]);
+    expect(sendPaymentFailedEmail).toHaveBeenCalledTimes(2);
+
+    // A later redelivery is recognised as done
+    expect((await handler(webhookRequest(paymentFailed))).status).toBe(200);
+    expect(sendPaymentFailedEmail).toHaveBeenCalledTimes(2);
+  });
+});
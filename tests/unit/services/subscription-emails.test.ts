@@ -0,0 +1,209 @@
+// @vitest-environment node
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type Stripe from "stripe";
+import { closeTestDb, migrateTestDb, resetTestDb, testDb } from "@/tests/test-db";
+import { subscription, user } from "@/lib/db/schema";
+import {
+  createDisabledTransport,
+  createEmailService,
+  createMemoryTransport,
+  type EmailService,
+  type MemoryEmailTransport,
+} from "@/lib/services/email-service";
+import { sendPaymentFailedEmail, sendTrialEndingReminders } from "@/lib/services/subscription-emails";
+
+vi.mock("@/lib/db", async () => (await import("@/tests/test-db")).testDbModule);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const USER_ID = "user-1";
+const NOW = new Date("2026-03-10T09:00:00Z");
+
+function daysFromNow(days: number) {
+  return new Date(NOW.getTime() + days * DAY_MS);
+}
+
+async function insertTrial(id: string, trialEnd: Date, values: Partial<typeof subscription.$inferInsert> = {}) {
+  await testDb.insert(subscription).values({
+    id,
+    plan: "pro",
+    referenceId: USER_ID,
+    stripeSubscriptionId: `stripe_${id}`,
+    status: "trialing",
+    trialEnd,
+    cancelAtPeriodEnd: false,
+    ...values,
+  });
+}
+
+function trialEndingKeys(transport: MemoryEmailTransport) {
+  return transport.sent.map((message) => message.idempotencyKey);
+}
+
+let transport: MemoryEmailTransport;
+let email: EmailService;
+
+beforeAll(() => migrateTestDb());
+
+beforeEach(async () => {
+  await resetTestDb();
+  vi.unstubAllEnvs();
+  transport = createMemoryTransport();
+  email = createEmailService({ transport });
+  await testDb.insert(user).values({ id: USER_ID, name: "Ada", email: "ada@example.com" });
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await closeTestDb();
+});
+
+describe("sendTrialEndingReminders", () => {
+  it("reminds each trial at the closest threshold it is within", async () => {
+    await insertTrial("sub-3-days", daysFromNow(2.5));
+    await insertTrial("sub-1-day", daysFromNow(0.5));
+    await insertTrial("sub-later", daysFromNow(5));
+
+    const run = await sendTrialEndingReminders({ email, now: NOW, reminderDays: [3, 1] });
+
+    expect(run).toEqual({ checked: 2, sent: 2, duplicate: 0, skipped: 0, failed: 0 });
+    expect(trialEndingKeys(transport).sort()).toEqual(["trial_ending:sub-1-day:1", "trial_ending:sub-3-days:3"]);
+    expect(transport.sent.every((message) => message.template === "trial_ending")).toBe(true);
+  });
+
+  it("sends each reminder once, however often it runs", async () => {
+    await insertTrial("sub-1", daysFromNow(2.5));
+
+    await sendTrialEndingReminders({ email, now: NOW, reminderDays: [3, 1] });
+    const rerun = await sendTrialEndingReminders({ email, now: new Date(NOW.getTime() + HOUR_MS), reminderDays: [3, 1] });
+
+    expect(rerun).toEqual({ checked: 1, sent: 0, duplicate: 1, skipped: 0, failed: 0 });
+    expect(transport.sent).toHaveLength(1);
+  });
+
+  it("sends the next reminder once the trial reaches the next threshold", async () => {
+    const trialEnd = daysFromNow(2.5);
+    await insertTrial("sub-1", trialEnd);
+
+    await sendTrialEndingReminders({ email, now: NOW, reminderDays: [3, 1] });
+    await sendTrialEndingReminders({ email, now: new Date(trialEnd.getTime() - 12 * HOUR_MS), reminderDays: [3, 1] });
+
+    expect(trialEndingKeys(transport)).toEqual(["trial_ending:sub-1:3", "trial_ending:sub-1:1"]);
+    expect(transport.sent[1].subject).toContain("ends tomorrow");
+  });
+
+  it("counts the days left up to the next whole day", async () => {
+    await insertTrial("sub-1", daysFromNow(2.5));
+
+    await sendTrialEndingReminders({ email, now: NOW, reminderDays: [3, 1] });
+
+    expect(transport.sent[0].subject).toContain("ends in 3 days");
+  });
+
+  it("skips canceled trials, ended trials and subscriptions that aren't trialing", async () => {
+    await insertTrial("sub-canceled", daysFromNow(1), { cancelAtPeriodEnd: true });
+    await insertTrial("sub-ended", daysFromNow(-1));
+    await insertTrial("sub-active", daysFromNow(1), { status: "active" });
+
+    const run = await sendTrialEndingReminders({ email, now: NOW, reminderDays: [3, 1] });
+
+    expect(run.checked).toBe(0);
+    expect(transport.sent).toHaveLength(0);
+  });
+
+  it("reads the thresholds from TRIAL_REMINDER_DAYS", async () => {
+    vi.stubEnv("TRIAL_REMINDER_DAYS", "7");
+    await insertTrial("sub-1", daysFromNow(5));
+
+    await sendTrialEndingReminders({ email, now: NOW });
+
+    expect(trialEndingKeys(transport)).toEqual(["trial_ending:sub-1:7"]);
+  });
+
+  it("counts failed sends and retries them on the next run", async () => {
+    await insertTrial("sub-1", daysFromNow(2.5));
+    vi.spyOn(transport, "send").mockRejectedValueOnce(new Error("Resend is down"));
+
+    expect(await sendTrialEndingReminders({ email, now: NOW, reminderDays: [3, 1] })).toMatchObject({
+      sent: 0,
+      failed: 1,
+    });
+    expect(await sendTrialEndingReminders({ email, now: NOW, reminderDays: [3, 1] })).toMatchObject({
+      sent: 1,
+      failed: 0,
+    });
+  });
+
+  it("counts reminders skipped while email delivery is disabled", async () => {
+    await insertTrial("sub-1", daysFromNow(2.5));
+
+    const run = await sendTrialEndingReminders({
+      email: createEmailService({ transport: createDisabledTransport() }),
+      now: NOW,
+      reminderDays: [3, 1],
+    });
+
+    expect(run).toMatchObject({ checked: 1, sent: 0, skipped: 1 });
+  });
+});
+
+describe("sendPaymentFailedEmail", () => {
+  function failedInvoice(values: Partial<Stripe.Invoice> = {}) {
+    return {
+      id: "in_1",
+      amount_due: 2000,
+      currency: "usd",
+      attempt_count: 1,
+      hosted_invoice_url: "https://invoice.stripe.com/i/in_1",
+      parent: { subscription_details: { subscription: "stripe_sub-1" } },
+      ...values,
+    } as Stripe.Invoice;
+  }
+
+  beforeEach(async () => {
+    await testDb.insert(subscription).values({
+      id: "sub-1",
+      plan: "pro",
+      referenceId: USER_ID,
+      stripeSubscriptionId: "stripe_sub-1",
+      status: "past_due",
+    });
+  });
+
+  it("emails the subscriber the amount due and the invoice link", async () => {
+    expect(await sendPaymentFailedEmail(failedInvoice(), { email })).toBe("sent");
+
+    expect(transport.sent[0]).toMatchObject({ to: "ada@example.com", template: "payment_failed" });
+    expect(transport.sent[0].text).toContain("$20.00");
+    expect(transport.sent[0].text).toContain("https://invoice.stripe.com/i/in_1");
+  });
+
+  it.each([
+    ["jpy", 2000, "¥2,000"],
+    ["eur", 1999, "€19.99"],
+    ["kwd", 2500, "KWD\u00a02.500"],
+  ])("formats %s amounts with the currency's minor unit", async (currency, amount, formatted) => {
+    await sendPaymentFailedEmail(failedInvoice({ currency, amount_due: amount }), { email });
+
+    expect(transport.sent[0].text).toContain(formatted);
+  });
+
+  it("sends one email per payment attempt", async () => {
+    await sendPaymentFailedEmail(failedInvoice(), { email });
+    expect(await sendPaymentFailedEmail(failedInvoice(), { email })).toBe("duplicate");
+    await sendPaymentFailedEmail(failedInvoice({ attempt_count: 2 }), { email });
+
+    expect(transport.sent).toHaveLength(2);
+  });
+
+  it("skips invoices without a known subscription", async () => {
+    expect(await sendPaymentFailedEmail(failedInvoice({ parent: null }), { email })).toBe("skipped");
+    expect(
+      await sendPaymentFailedEmail(
+        failedInvoice({ parent: { subscription_details: { subscription: "stripe_other" } } } as Partial<Stripe.Invoice>),
+        { email }
+      )
+    ).toBe("skipped");
+    expect(transport.sent).toHaveLength(0);
+  });
+});
@@ -0,0 +1,253 @@
+// @vitest-environment node
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type Stripe from "stripe";
+import { closeTestDb, migrateTestDb, resetTestDb, testDb } from "@/tests/test-db";
+import { subscription, subscriptionAddOn, user } from "@/lib/db/schema";
+import {
+  getUserEntitlements,
+  syncSubscriptionAddOns,
+  type AddOnSyncClient,
+} from "@/lib/utils/entitlements";
+import { createUpgradeRequiredResponse } from "@/lib/utils/auth-responses";
+import { requireAuth } from "@/lib/utils/mcp-auth-helpers";
+
+vi.hoisted(() => {
+  vi.stubEnv("STRIPE_EXPORTS_ADDON_PRICE_ID", "price_exports");
+  vi.stubEnv("STRIPE_PRO_PRICE_ID", "price_pro");
+  vi.stubEnv("STRIPE_ENTERPRISE_PRICE_ID", "price_enterprise");
+});
+
+vi.mock("@/lib/db", async () => (await import("@/tests/test-db")).testDbModule);
+vi.mock("ioredis", async () => {
+  const { default: RedisMock } = await import("ioredis-mock");
+  return { default: RedisMock, Redis: RedisMock };
+});
+vi.mock("@/lib/config/features", () => ({ FEATURES: { SUBSCRIPTIONS: true, PASSKEYS: true } }));
+
+const USER_ID = "user-1";
+const CUSTOMER_ID = "cus_test";
+const SESSION = { userId: USER_ID };
+
+async function insertSubscription(plan: string, status: string) {
+  await testDb.insert(subscription).values({
+    id: "sub-1",
+    plan,
+    referenceId: USER_ID,
+    stripeCustomerId: CUSTOMER_ID,
+    stripeSubscriptionId: "sub_stripe",
+    status,
+    periodStart: new Date(),
+  });
+}
+
+async function insertExportsAddOn() {
+  await testDb.insert(subscriptionAddOn).values({
+    userId: USER_ID,
+    addOn: "exports",
+    stripeSubscriptionId: "sub_stripe",
+    stripeSubscriptionItemId: "si_exports",
+  });
+}
+
+function stripeSubscription(status: Stripe.Subscription.Status, priceIds: string[]) {
+  return {
+    id: "sub_stripe",
+    customer: CUSTOMER_ID,
+    status,
+    items: { data: priceIds.map((priceId, i) => ({ id: `si_${i}`, price: { id: priceId } })) },
+  } as unknown as Stripe.Subscription;
+}
+
+function createStubClient(current: Stripe.Subscription) {
+  return {
+    subscriptions: {
+      retrieve: vi.fn<AddOnSyncClient["subscriptions"]["retrieve"]>(async () => current),
+    },
+  } satisfies AddOnSyncClient;
+}
+
+async function getAddOnRows() {
+  return testDb.select().from(subscriptionAddOn);
+}
+
+beforeAll(() => migrateTestDb());
+
+beforeEach(async () => {
+  await resetTestDb();
+  await testDb.insert(user).values({
+    id: USER_ID,
+    name: "Test User",
+    email: "user@example.com",
+    stripeCustomerId: CUSTOMER_ID,
+  });
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await closeTestDb();
+});
+
+describe("getUserEntitlements", () => {
+  it("grants nothing without a subscription", async () => {
+    expect(await getUserEntitlements(USER_ID)).toEqual({
+      plan: null,
+      trialing: false,
+      addOns: [],
+      entitlements: new Set(),
+    });
+  });
+
+  it("grants the plan's entitlements", async () => {
+    await insertSubscription("pro", "active");
+
+    expect(await getUserEntitlements(USER_ID)).toEqual({
+      plan: "pro",
+      trialing: false,
+      addOns: [],
+      entitlements: new Set(["premium_tools", "exports"]),
+    });
+  });
+
+  it("holds back the entitlements a trial doesn't include", async () => {
+    await insertSubscription("pro", "trialing");
+
+    const { trialing, entitlements } = await getUserEntitlements(USER_ID);
+
+    expect(trialing).toBe(true);
+    expect(entitlements).toEqual(new Set(["premium_tools"]));
+  });
+
+  it("adds the entitlements of the user's add-ons", async () => {
+    await insertSubscription("basic", "active");
+    await insertExportsAddOn();
+
+    expect(await getUserEntitlements(USER_ID)).toMatchObject({
+      plan: "basic",
+      addOns: ["exports"],
+      entitlements: new Set(["exports"]),
+    });
+  });
+
+  it("ignores add-ons once the subscription has no access", async () => {
+    await insertSubscription("basic", "canceled");
+    await insertExportsAddOn();
+
+    expect((await getUserEntitlements(USER_ID)).entitlements).toEqual(new Set());
+  });
+});
+
+describe("requireAuth with requireEntitlement", () => {
+  it("lets a subscriber whose plan includes the entitlement through", async () => {
+    await insertSubscription("pro", "active");
+
+    expect(await requireAuth(SESSION, "exports", { requireEntitlement: "exports" })).toBeNull();
+  });
+
+  it("lets a subscriber with an add-on granting it through", async () => {
+    await insertSubscription("basic", "active");
+    await insertExportsAddOn();
+
+    expect(await requireAuth(SESSION, "exports", { requireEntitlement: "exports" })).toBeNull();
+  });
+
+  it("tells other subscribers which plans and add-ons unlock it", async () => {
+    await insertSubscription("basic", "active");
+
+    const response = await requireAuth(SESSION, "Exports", { requireEntitlement: "exports" });
+
+    expect(response?.structuredContent).toMatchObject({
+      message: "Exports needs Data exports, available with Pro, Enterprise, or Exports add-on. Upgrade to continue.",
+      error_message: "Upgrade required",
+      requiredEntitlements: ["exports"],
+      upgradeOptions: [
+        { name: "pro", displayName: "Pro", type: "plan" },
+        { name: "enterprise", displayName: "Enterprise", type: "plan" },
+        { name: "exports", displayName: "Exports add-on", type: "add_on" },
+      ],
+    });
+  });
+
+  it("tells trialing subscribers the entitlement comes with their plan once the trial ends", async () => {
+    await insertSubscription("pro", "trialing");
+
+    const response = await requireAuth(SESSION, "Exports", { requireEntitlement: "exports" });
+
+    expect(response?.structuredContent).toMatchObject({
+      message: "Exports needs Data exports, included in your Pro plan once the trial ends.",
+    });
+  });
+
+  it("asks users without a subscription to subscribe first", async () => {
+    const response = await requireAuth(SESSION, "Exports", { requireEntitlement: "exports" });
+
+    expect(response?.structuredContent).toMatchObject({ error_message: "Subscription required" });
+  });
+});
+
+describe("createUpgradeRequiredResponse", () => {
+  it("leaves the user's own plan out of the options", () => {
+    const response = createUpgradeRequiredResponse("Support", ["priority_support"], USER_ID, {
+      plan: "pro",
+      trialing: false,
+    });
+
+    expect(response.structuredContent).toMatchObject({
+      upgradeOptions: [{ name: "enterprise", displayName: "Enterprise", type: "plan" }],
+    });
+    expect(response._meta).toMatchObject({
+      "openai/outputTemplate": expect.stringContaining("subscription-required"),
+      "openai/toolInvocation/invoked": "Upgrade required",
+      userId: USER_ID,
+    });
+  });
+
+  it("lists every missing feature", () => {
+    const response = createUpgradeRequiredResponse("Reports", ["exports", "priority_support"]);
+
+    expect(response.structuredContent).toMatchObject({
+      message: "Reports needs Data exports, Priority support, available with Enterprise. Upgrade to continue.",
+    });
+  });
+});
+
+describe("syncSubscriptionAddOns", () => {
+  it("mirrors the subscription's add-on items", async () => {
+    const current = stripeSubscription("active", ["price_basic", "price_exports"]);
+    const client = createStubClient(current);
+
+    await syncSubscriptionAddOns(current, client);
+
+    expect(client.subscriptions.retrieve).toHaveBeenCalledWith("sub_stripe");
+    expect(await getAddOnRows()).toMatchObject([
+      { userId: USER_ID, addOn: "exports", stripeSubscriptionId: "sub_stripe", stripeSubscriptionItemId: "si_1" },
+    ]);
+  });
+
+  it("syncs the subscription as it is now, not as a stale event had it", async () => {
+    await insertExportsAddOn();
+    // An old event, delivered late or replayed, from before the add-on was removed
+    const stale = stripeSubscription("active", ["price_basic", "price_exports"]);
+    const client = createStubClient(stripeSubscription("active", ["price_basic"]));
+
+    await syncSubscriptionAddOns(stale, client);
+
+    expect(await getAddOnRows()).toEqual([]);
+  });
+
+  it("removes the add-ons of a canceled subscription", async () => {
+    await insertExportsAddOn();
+    const current = stripeSubscription("canceled", ["price_basic", "price_exports"]);
+
+    await syncSubscriptionAddOns(current, createStubClient(current));
+
+    expect(await getAddOnRows()).toEqual([]);
+  });
+
+  it("skips subscriptions of unknown customers", async () => {
+    const current = { ...stripeSubscription("active", ["price_exports"]), customer: "cus_other" };
+
+    await syncSubscriptionAddOns(current, createStubClient(current));
+
+    expect(await getAddOnRows()).toEqual([]);
+  });
+});
@@ -0,0 +1,262 @@
+// @vitest-environment node
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { closeTestDb, migrateTestDb, resetTestDb, testDb } from "@/tests/test-db";
+import { subscription } from "@/lib/db/schema";
+import { GRACE_PERIOD_DAYS } from "@/lib/config/plans";
+import { requireAuth } from "@/lib/utils/mcp-auth-helpers";
+import {
+  getLapsedSubscription,
+  getSubscriptionGrace,
+  getUserSubscription,
+} from "@/lib/utils/subscription-helpers";
+
+vi.mock("@/lib/db", async () => (await import("@/tests/test-db")).testDbModule);
+vi.mock("ioredis", async () => {
+  const { default: RedisMock } = await import("ioredis-mock");
+  return { default: RedisMock, Redis: RedisMock };
+});
+vi.mock("@/lib/config/features", () => ({ FEATURES: { SUBSCRIPTIONS: true, PASSKEYS: true } }));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const USER_ID = "user-1";
+
+// Renewal that failed on March 1st
+const PERIOD_START = new Date("2026-03-01T00:00:00Z");
+const PAST_DUE_GRACE_ENDS = new Date(PERIOD_START.getTime() + GRACE_PERIOD_DAYS.past_due * DAY_MS);
+const IN_GRACE = new Date(PAST_DUE_GRACE_ENDS.getTime() - DAY_MS);
+const AFTER_GRACE = new Date(PAST_DUE_GRACE_ENDS.getTime() + DAY_MS);
+const EARLIER_PERIOD_START = new Date("2026-02-15T00:00:00Z");
+
+let nextId = 0;
+
+async function insertSubscription(values: { status: string; plan?: string; periodStart?: Date | null }) {
+  const [row] = await testDb
+    .insert(subscription)
+    .values({
+      id: `sub-${++nextId}`,
+      plan: values.plan ?? "pro",
+      referenceId: USER_ID,
+      stripeCustomerId: "cus_test",
+      status: values.status,
+      periodStart: values.periodStart === undefined ? PERIOD_START : values.periodStart,
+    })
+    .returning();
+  return row;
+}
+
+describe("getSubscriptionGrace", () => {
+  it.each(["active", "trialing", "canceled", "incomplete", "incomplete_expired", null])(
+    "has no grace period for %s subscriptions",
+    (status) => {
+      expect(getSubscriptionGrace({ status, periodStart: PERIOD_START }, IN_GRACE)).toBeNull();
+    }
+  );
+
+  it("keeps past_due subscriptions for GRACE_PERIOD_DAYS from the failed period's start", () => {
+    expect(getSubscriptionGrace({ status: "past_due", periodStart: PERIOD_START }, IN_GRACE)).toEqual({
+      status: "past_due",
+      endsAt: PAST_DUE_GRACE_ENDS,
+      expired: false,
+    });
+  });
+
+  it("expires past_due subscriptions once the grace period ends", () => {
+    expect(getSubscriptionGrace({ status: "past_due", periodStart: PERIOD_START }, PAST_DUE_GRACE_ENDS)).toEqual({
+      status: "past_due",
+      endsAt: PAST_DUE_GRACE_ENDS,
+      expired: true,
+    });
+    expect(getSubscriptionGrace({ status: "past_due", periodStart: PERIOD_START }, AFTER_GRACE)?.expired).toBe(true);
+  });
+
+  it("ends access to unpaid subscriptions right away", () => {
+    expect(GRACE_PERIOD_DAYS.unpaid).toBe(0);
+    expect(getSubscriptionGrace({ status: "unpaid", periodStart: PERIOD_START }, PERIOD_START)).toEqual({
+      status: "unpaid",
+      endsAt: PERIOD_START,
+      expired: true,
+    });
+  });
+
+  it("leaves no grace to a subscription without a billing period", () => {
+    expect(getSubscriptionGrace({ status: "past_due", periodStart: null }, IN_GRACE)).toEqual({
+      status: "past_due",
+      endsAt: IN_GRACE,
+      expired: true,
+    });
+  });
+});
+
+describe("with subscriptions in the database", () => {
+  beforeAll(() => migrateTestDb());
+  beforeEach(() => resetTestDb());
+  afterAll(() => closeTestDb());
+
+  describe("getUserSubscription", () => {
+    it.each(["active", "trialing"])("returns %s subscriptions", async (status) => {
+      const sub = await insertSubscription({ status });
+
+      expect(await getUserSubscription(USER_ID, AFTER_GRACE)).toEqual(sub);
+    });
+
+    it("returns past_due subscriptions during their grace period", async () => {
+      const sub = await insertSubscription({ status: "past_due" });
+
+      expect(await getUserSubscription(USER_ID, IN_GRACE)).toEqual(sub);
+    });
+
+    it("drops past_due subscriptions after their grace period", async () => {
+      await insertSubscription({ status: "past_due" });
+
+      expect(await getUserSubscription(USER_ID, AFTER_GRACE)).toBeNull();
+    });
+
+    it.each(["unpaid", "canceled", "incomplete"])("doesn't return %s subscriptions", async (status) => {
+      await insertSubscription({ status });
+
+      expect(await getUserSubscription(USER_ID, IN_GRACE)).toBeNull();
+    });
+
+    it("prefers a subscription with access over a lapsed one", async () => {
+      // The lapsed one has the latest billing period
+      await insertSubscription({ status: "past_due", plan: "pro" });
+      const active = await insertSubscription({ status: "active", plan: "basic", periodStart: EARLIER_PERIOD_START });
+
+      expect(await getUserSubscription(USER_ID, AFTER_GRACE)).toEqual(active);
+    });
+
+    it("only returns the user's own subscriptions", async () => {
+      await insertSubscription({ status: "active" });
+
+      expect(await getUserSubscription("user-2", IN_GRACE)).toBeNull();
+    });
+  });
+
+  describe("getLapsedSubscription", () => {
+    it("returns a past_due subscription whose grace period ended, with its grace", async () => {
+      const sub = await insertSubscription({ status: "past_due" });
+
+      expect(await getLapsedSubscription(USER_ID, AFTER_GRACE)).toEqual({
+        ...sub,
+        grace: { status: "past_due", endsAt: PAST_DUE_GRACE_ENDS, expired: true },
+      });
+    });
+
+    it("returns unpaid subscriptions", async () => {
+      const sub = await insertSubscription({ status: "unpaid" });
+
+      expect(await getLapsedSubscription(USER_ID, IN_GRACE)).toMatchObject({
+        id: sub.id,
+        grace: { status: "unpaid", expired: true },
+      });
+    });
+
+    it("returns null during the grace period", async () => {
+      await insertSubscription({ status: "past_due" });
+
+      expect(await getLapsedSubscription(USER_ID, IN_GRACE)).toBeNull();
+    });
+
+    it.each(["active", "trialing"])("returns null while the user has a %s subscription", async (status) => {
+      await insertSubscription({ status: "past_due" });
+      await insertSubscription({ status, periodStart: EARLIER_PERIOD_START });
+
+      expect(await getLapsedSubscription(USER_ID, AFTER_GRACE)).toBeNull();
+    });
+
+    it.each(["canceled", "incomplete"])("returns null for %s subscriptions", async (status) => {
+      await insertSubscription({ status });
+
+      expect(await getLapsedSubscription(USER_ID, AFTER_GRACE)).toBeNull();
+    });
+
+    it("returns null for users who never subscribed", async () => {
+      expect(await getLapsedSubscription(USER_ID, AFTER_GRACE)).toBeNull();
+    });
+  });
+
+  describe("requireAuth through a failed payment", () => {
+    const SESSION = { userId: USER_ID };
+
+    async function setStatus(status: string) {
+      await testDb.update(subscription).set({ status }).where(eq(subscription.referenceId, USER_ID));
+    }
+
+    async function checkAccessAt(now: Date) {
+      vi.setSystemTime(now);
+      return requireAuth(SESSION, "reports");
+    }
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("keeps access through the grace period, then asks for a new payment method", async () => {
+      await insertSubscription({ status: "active" });
+      expect(await checkAccessAt(new Date(PERIOD_START.getTime() - DAY_MS))).toBeNull();
+
+      // The renewal on PERIOD_START fails
+      await setStatus("past_due");
+      expect(await checkAccessAt(PERIOD_START)).toBeNull();
+      expect(await checkAccessAt(IN_GRACE)).toBeNull();
+
+      const lapsed = await checkAccessAt(PAST_DUE_GRACE_ENDS);
+      expect(lapsed?.structuredContent).toMatchObject({
+        error_message: "Payment required",
+        subscriptionStatus: "past_due",
+        graceEndsAt: PAST_DUE_GRACE_ENDS.toISOString(),
+      });
+      expect(lapsed?._meta).toMatchObject({ "openai/toolInvocation/invoked": "Payment required" });
+      expect(await checkAccessAt(AFTER_GRACE)).toMatchObject({
+        structuredContent: { error_message: "Payment required" },
+      });
+    });
+
+    it("asks for a new payment method once Stripe gives up retrying (unpaid)", async () => {
+      await insertSubscription({ status: "past_due" });
+      expect(await checkAccessAt(IN_GRACE)).toBeNull();
+
+      await setStatus("unpaid");
+      expect(await checkAccessAt(IN_GRACE)).toMatchObject({
+        structuredContent: {
+          error_message: "Payment required",
+          subscriptionStatus: "unpaid",
+          graceEndsAt: PERIOD_START.toISOString(),
+        },
+      });
+    });
+
+    it("offers plans again once the lapsed subscription is canceled", async () => {
+      await insertSubscription({ status: "past_due" });
+      expect(await checkAccessAt(AFTER_GRACE)).toMatchObject({
+        structuredContent: { error_message: "Payment required" },
+      });
+
+      await setStatus("canceled");
+      expect(await checkAccessAt(AFTER_GRACE)).toMatchObject({
+        structuredContent: { error_message: "Subscription required" },
+      });
+    });
+
+    it("restores access when the payment goes through after the grace period", async () => {
+      await insertSubscription({ status: "past_due" });
+      expect(await checkAccessAt(AFTER_GRACE)).not.toBeNull();
+
+      await setStatus("active");
+      expect(await checkAccessAt(AFTER_GRACE)).toBeNull();
+    });
+
+    it("asks users whose subscription never started to subscribe (incomplete)", async () => {
+      await insertSubscription({ status: "incomplete" });
+
+      expect(await checkAccessAt(IN_GRACE)).toMatchObject({
+        structuredContent: { error_message: "Subscription required" },
+      });
+    });
+  });
+});